@@ -4,6 +4,9 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
+// Apply schema changes with `npm run db:push`, not drizzle-kit directly: it runs
+// server/migrate-org.ts first, which moves department and sub-department names onto the
+// org tables so push can add the foreign keys to them.
 export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
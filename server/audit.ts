@@ -0,0 +1,38 @@
+import type { Request } from "express";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  // Defaults to the signed-in user; pass it when the route already has it loaded
+  actor?: User | null;
+}
+
+// Appends an audit event. With no request the event is attributed to the portal
+// itself (scheduled jobs). Failures are logged rather than thrown: the action being
+// audited has already happened by the time this runs.
+export async function recordAudit(req: Request | null, entry: AuditEntry): Promise<void> {
+  try {
+    let actor = entry.actor;
+    if (actor === undefined && req?.session.userId) {
+      actor = await storage.getUser(req.session.userId);
+    }
+
+    await storage.createAuditEvent({
+      actorId: actor?.id ?? null,
+      actorUsername: actor?.robloxUsername ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ip: req?.ip ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${entry.action}:`, error);
+  }
+}
@@ -0,0 +1,66 @@
+import { loaEndDay, type LoaRequest, type User } from "@shared/schema";
+import { placementLabel } from "./org";
+
+// Renders approved LOAs as an iCalendar (RFC 5545) feed that calendar apps can subscribe to
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are limited to 75 octets; longer lines continue after CRLF + space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest, "utf-8") > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut), "utf-8") > 75) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = " " + rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join("\r\n");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function renderLoaCalendar(department: string, loas: { request: LoaRequest; user: User }[]): string {
+  const now = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Aulani Springs//Staff Portal//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${placementLabel(department, null)} LOAs`)}`,
+  ];
+
+  for (const { request, user } of loas) {
+    // All-day events; DTEND is exclusive, like loaEndDay
+    const end = loaEndDay(request.startDate, request.endDate);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:loa-${request.id}@aulani-staff-portal`,
+      `DTSTAMP:${formatTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${formatDate(request.startDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(end)}`,
+      `SUMMARY:${escapeText(`${user.robloxUsername} on LOA`)}`,
+      `DESCRIPTION:${escapeText(`${user.rank}, ${placementLabel(user.department, user.subDepartment)}`)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
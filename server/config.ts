@@ -0,0 +1,108 @@
+import { z } from "zod";
+import {
+  robloxSettingsSchema,
+  loaPolicySchema,
+  transferPolicySchema,
+  coverageSettingsSchema,
+  DEFAULT_LOA_POLICY,
+  DEFAULT_TRANSFER_POLICY,
+  type RobloxSettings,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Seeded into portal_settings the first time the portal starts against an empty database
+export const DEFAULT_ROBLOX_SETTINGS: RobloxSettings = {
+  groupId: 10260222,
+  // Supervisor and above in Aulani Springs
+  minPortalRankId: 200,
+  // Assistant Manager and above
+  leadershipMinRankId: 205,
+  // Chief Staff Officer and above, which covers Board of Directors, Executive Board and
+  // the Proprietor
+  executiveMinRankId: 252,
+  rankTitles: [
+    { minRankId: 255, title: "Proprietor" },
+    { minRankId: 254, title: "Executive Board" },
+    { minRankId: 253, title: "Board of Directors" },
+    { minRankId: 252, title: "Chief Staff Officer" },
+    { minRankId: 240, title: "Marketing Department" },
+    { minRankId: 235, title: "Chief Administrative Officer" },
+    { minRankId: 225, title: "Public Relations Officer" },
+    { minRankId: 222, title: "Senior Management" },
+    { minRankId: 220, title: "General Manager" },
+    { minRankId: 205, title: "Assistant Manager" },
+    { minRankId: 200, title: "Supervisor" },
+    { minRankId: 0, title: "Staff" },
+  ],
+};
+
+// A validated, admin-editable setting stored as one JSON document in portal_settings.
+// The current value is kept in memory so reads are free; load() and update() replace it.
+export interface Setting<T> {
+  key: string;
+  get(): T;
+  // Loads from the database, seeding the defaults if nothing is stored yet. Throws if
+  // the stored value is invalid, leaving the previous value in place.
+  load(): Promise<T>;
+  // Validates, stores and applies a new value immediately
+  update(input: unknown, updatedBy: string): Promise<T>;
+}
+
+function defineSetting<T>(key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, defaults: T): Setting<T> {
+  let current = defaults;
+
+  return {
+    key,
+    get: () => current,
+    async load() {
+      const stored = await storage.getSetting(key);
+
+      if (!stored) {
+        await storage.upsertSetting(key, defaults, null);
+        current = defaults;
+        return current;
+      }
+
+      const parsed = schema.safeParse(stored.value);
+      if (!parsed.success) {
+        throw new Error(`Invalid "${key}" settings in portal_settings: ${parsed.error.message}`);
+      }
+
+      current = parsed.data;
+      return current;
+    },
+    async update(input, updatedBy) {
+      const value = schema.parse(input);
+      await storage.upsertSetting(key, value, updatedBy);
+      current = value;
+      return current;
+    },
+  };
+}
+
+export const robloxSettings = defineSetting("roblox", robloxSettingsSchema, DEFAULT_ROBLOX_SETTINGS);
+export const loaPolicySettings = defineSetting("loa_policy", loaPolicySchema, DEFAULT_LOA_POLICY);
+export const transferPolicySettings = defineSetting("transfer_policy", transferPolicySchema, DEFAULT_TRANSFER_POLICY);
+export const coverageSettings = defineSetting("coverage", coverageSettingsSchema, {
+  minOnDuty: 1,
+  subDepartmentMinimums: [],
+});
+
+export const SETTINGS: Setting<unknown>[] = [robloxSettings, loaPolicySettings, transferPolicySettings, coverageSettings];
+
+export function getRobloxSettings(): RobloxSettings {
+  return robloxSettings.get();
+}
+
+export function getSetting(key: string): Setting<unknown> | undefined {
+  return SETTINGS.find((setting) => setting.key === key);
+}
+
+// Loads (or reloads) every setting; used at startup and by the admin reload endpoint
+export async function loadAllSettings(): Promise<Record<string, unknown>> {
+  const loaded: Record<string, unknown> = {};
+  for (const setting of SETTINGS) {
+    loaded[setting.key] = await setting.load();
+  }
+  return loaded;
+}
@@ -0,0 +1,145 @@
+import {
+  loaEndDay,
+  type CoverageSettings,
+  type LoaRequest,
+  type User,
+} from "@shared/schema";
+import { getDepartments, getDepartment, getSubDepartmentsOf } from "./org";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range one coverage report can span
+export const MAX_COVERAGE_DAYS = 92;
+
+export interface CoverageLoa {
+  id: string;
+  userId: string;
+  robloxUsername: string;
+  startDate: Date;
+  endDate: Date;
+  status: string;
+}
+
+export interface CoverageDay {
+  date: string; // YYYY-MM-DD (UTC)
+  onDuty: number;
+  // On-duty count if every pending LOA covering this day were approved
+  onDutyIfPendingApproved: number;
+}
+
+export interface CoverageWarning {
+  date: string;
+  onDuty: number;
+  minOnDuty: number;
+  // True when the shortfall only happens once pending LOAs are approved
+  pendingOnly: boolean;
+}
+
+export interface SubDepartmentCoverage {
+  subDepartment: string;
+  name: string;
+  headcount: number;
+  minOnDuty: number;
+  loas: CoverageLoa[];
+  days: CoverageDay[];
+  warnings: CoverageWarning[];
+}
+
+export interface DepartmentCoverage {
+  department: string;
+  name: string;
+  subDepartments: SubDepartmentCoverage[];
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Whether the LOA covers the day, counting days the same way as loaEndDay
+function overlapsDay(loa: { startDate: Date; endDate: Date }, dayStart: Date): boolean {
+  return startOfUtcDay(loa.startDate).getTime() <= dayStart.getTime()
+    && loaEndDay(loa.startDate, loa.endDate).getTime() > dayStart.getTime();
+}
+
+export function coverageDays(from: Date, to: Date): Date[] {
+  const days: Date[] = [];
+  for (let day = startOfUtcDay(from); day.getTime() <= to.getTime(); day = new Date(day.getTime() + DAY_MS)) {
+    days.push(day);
+  }
+  return days;
+}
+
+function minOnDutyFor(settings: CoverageSettings, department: string, subDepartment: string): number {
+  const override = settings.subDepartmentMinimums.find((m) =>
+    m.department === department && m.subDepartment === subDepartment
+  );
+  return override ? override.minOnDuty : settings.minOnDuty;
+}
+
+// Groups approved and pending LOAs by department and sub-department, and counts who is
+// on duty each day of the range against the configured minimums. Archived departments
+// and sub-departments are left out unless asked for by id.
+export function buildCoverageReport(
+  range: { from: Date; to: Date; department?: string },
+  staff: User[],
+  loas: { request: LoaRequest; user: User }[],
+  settings: CoverageSettings,
+): DepartmentCoverage[] {
+  const days = coverageDays(range.from, range.to);
+  const departments = range.department
+    ? [getDepartment(range.department)].filter((department) => department !== undefined)
+    : getDepartments().filter((department) => !department.archived);
+
+  return departments.map(({ id: department, name }) => {
+    const subDepartments = getSubDepartmentsOf(department)
+      .filter((subDepartment) => range.department || !subDepartment.archived);
+
+    return {
+      department,
+      name,
+      subDepartments: subDepartments.map(({ id: subDepartment, name }) => {
+        const members = staff.filter((user) => user.department === department && user.subDepartment === subDepartment);
+        const minOnDuty = minOnDutyFor(settings, department, subDepartment);
+        const subLoas: CoverageLoa[] = loas
+          .filter(({ user }) => user.department === department && user.subDepartment === subDepartment)
+          .map(({ request, user }) => ({
+            id: request.id,
+            userId: user.id,
+            robloxUsername: user.robloxUsername,
+            startDate: request.startDate,
+            endDate: request.endDate,
+            status: request.status,
+          }));
+
+        const coverage = days.map((day) => {
+          const away = new Set(subLoas.filter((l) => l.status === "Approved" && overlapsDay(l, day)).map((l) => l.userId));
+          const pendingAway = new Set(subLoas.filter((l) => overlapsDay(l, day)).map((l) => l.userId));
+          return {
+            date: day.toISOString().slice(0, 10),
+            onDuty: members.length - away.size,
+            onDutyIfPendingApproved: members.length - pendingAway.size,
+          };
+        });
+
+        const warnings: CoverageWarning[] = coverage
+          .filter((day) => day.onDutyIfPendingApproved < minOnDuty)
+          .map((day) => ({
+            date: day.date,
+            onDuty: day.onDuty < minOnDuty ? day.onDuty : day.onDutyIfPendingApproved,
+            minOnDuty,
+            pendingOnly: day.onDuty >= minOnDuty,
+          }));
+
+        return {
+          subDepartment,
+          name,
+          headcount: members.length,
+          minOnDuty,
+          loas: subLoas,
+          days: coverage,
+          warnings,
+        };
+      }),
+    };
+  });
+}
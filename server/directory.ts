@@ -0,0 +1,48 @@
+import type { StaffMember, OrgChartDepartment } from "@shared/schema";
+import { getDepartments, getDepartment, getSubDepartment, getSubDepartmentsOf } from "./org";
+
+// Groups staff into the org structure, keeping each group in rank order (the members must
+// already be sorted highest rank first). Every active sub-department is listed, empty or
+// not. Anyone filed under an archived or unknown department or sub-department is still
+// shown, after the others, so nobody drops off the chart. Users still onboarding have no
+// place on it yet.
+export function buildOrgChart(members: StaffMember[], department?: string): OrgChartDepartment[] {
+  const chart = new Map<string, Map<string, StaffMember[]>>();
+
+  for (const { id, archived } of getDepartments()) {
+    if (archived || (department && id !== department)) continue;
+    const subDepartments = getSubDepartmentsOf(id).filter((subDepartment) => !subDepartment.archived);
+    chart.set(id, new Map(subDepartments.map((subDepartment) => [subDepartment.id, []])));
+  }
+
+  for (const member of members) {
+    if (!member.department || !member.subDepartment) continue;
+
+    let subDepartments = chart.get(member.department);
+    if (!subDepartments) {
+      subDepartments = new Map();
+      chart.set(member.department, subDepartments);
+    }
+
+    const group = subDepartments.get(member.subDepartment);
+    if (group) {
+      group.push(member);
+    } else {
+      subDepartments.set(member.subDepartment, [member]);
+    }
+  }
+
+  return Array.from(chart, ([id, subDepartments]) => {
+    const groups = Array.from(subDepartments, ([subDepartmentId, groupMembers]) => ({
+      id: subDepartmentId,
+      name: getSubDepartment(subDepartmentId)?.name ?? subDepartmentId,
+      members: groupMembers,
+    }));
+    return {
+      id,
+      name: getDepartment(id)?.name ?? id,
+      memberCount: groups.reduce((count, group) => count + group.members.length, 0),
+      subDepartments: groups,
+    };
+  });
+}
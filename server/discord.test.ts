@@ -0,0 +1,140 @@
+import { describe, it, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { DiscordOutboxMessage, DiscordWebhook } from "@shared/schema";
+import { storage } from "./storage";
+import { postToWebhook, deliverDiscordOutbox, DiscordDeliveryError } from "./discord";
+
+// A local stand-in for Discord's webhook endpoint. /ok accepts, /rate-limited answers 429
+// with Retry-After, /gone answers 404 and /down answers 503.
+describe("Discord delivery", () => {
+  let server: Server;
+  let base: string;
+  let received: { url: string; body: unknown }[];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => { body += chunk; });
+      req.on("end", () => {
+        received.push({ url: req.url!, body: JSON.parse(body) });
+        if (req.url === "/ok") {
+          res.writeHead(204).end();
+        } else if (req.url === "/rate-limited") {
+          res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "7" }).end(JSON.stringify({ retry_after: 7 }));
+        } else {
+          res.writeHead(req.url === "/gone" ? 404 : 503).end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    mock.restoreAll();
+  });
+
+  describe("postToWebhook", () => {
+    it("posts the payload", async () => {
+      await postToWebhook(`${base}/ok`, { content: "hello" });
+      assert.deepEqual(received, [{ url: "/ok", body: { content: "hello" } }]);
+    });
+
+    it("passes on Discord's Retry-After for rate limits", async () => {
+      await assert.rejects(postToWebhook(`${base}/rate-limited`, {}), (error) =>
+        error instanceof DiscordDeliveryError && !error.permanent && error.retryAfterMs === 7000
+      );
+    });
+
+    it("treats 4xx as permanent and 5xx as worth retrying", async () => {
+      await assert.rejects(postToWebhook(`${base}/gone`, {}), (error) =>
+        error instanceof DiscordDeliveryError && error.permanent
+      );
+      await assert.rejects(postToWebhook(`${base}/down`, {}), (error) =>
+        error instanceof DiscordDeliveryError && !error.permanent && error.retryAfterMs === null
+      );
+    });
+  });
+
+  // The outbox queries need Postgres; here storage hands the job a claimed batch and
+  // records what the job does with each message
+  describe("deliverDiscordOutbox", () => {
+    const now = new Date("2026-01-01T12:00:00Z");
+
+    function webhook(id: string, path: string, enabled = true): DiscordWebhook {
+      return { id, department: null, label: null, url: `${base}${path}`, enabled, createdBy: null, createdAt: now };
+    }
+
+    function message(id: string, webhookId: string, attempts = 1): DiscordOutboxMessage {
+      return {
+        id,
+        webhookId,
+        event: "loa.created",
+        payload: { id },
+        attempts,
+        nextAttemptAt: now,
+        lastError: null,
+        deliveredAt: null,
+        failedAt: null,
+        createdAt: now,
+      };
+    }
+
+    it("delivers what it claims and reschedules or gives up on the rest", async () => {
+      const claim = mock.method(storage, "claimDiscordMessages", async () => [
+        message("delivered", "ok"),
+        message("rate-limited", "rate-limited"),
+        message("transient", "down", 2),
+        message("exhausted", "down", 10),
+        message("rejected", "gone"),
+        message("disabled", "disabled"),
+      ]);
+      mock.method(storage, "getDiscordWebhooks", async () => [
+        webhook("ok", "/ok"),
+        webhook("rate-limited", "/rate-limited"),
+        webhook("down", "/down"),
+        webhook("gone", "/gone"),
+        webhook("disabled", "/ok", false),
+      ]);
+      const delivered = mock.method(storage, "markDiscordMessageDelivered", async () => {});
+      const failed = mock.method(storage, "markDiscordMessageFailed", async () => {});
+
+      const startedAt = Date.now();
+      assert.deepEqual(await deliverDiscordOutbox(now), { delivered: 1, failed: 5 });
+      const finishedAt = Date.now();
+
+      // Claimed messages are leased for a minute so an overlapping run skips them
+      assert.deepEqual(claim.mock.calls[0].arguments, [now, new Date(now.getTime() + 60_000), 20]);
+      assert.deepEqual(delivered.mock.calls.map((call) => call.arguments), [["delivered"]]);
+
+      const retries = new Map(failed.mock.calls.map((call) => [call.arguments[0], call.arguments[2]]));
+      const assertRetryIn = (id: string, waitMs: number) => {
+        const retryAt = retries.get(id)!.getTime();
+        assert.ok(retryAt >= startedAt + waitMs && retryAt <= finishedAt + waitMs, `${id} retries in ${waitMs}ms`);
+      };
+      assertRetryIn("rate-limited", 7000);
+      // 30s doubled once for the second attempt
+      assertRetryIn("transient", 60_000);
+      for (const id of ["exhausted", "rejected", "disabled"]) {
+        assert.equal(retries.get(id), null, `${id} is given up on`);
+      }
+      // The disabled webhook was never called
+      assert.equal(received.filter((request) => request.url === "/ok").length, 1);
+    });
+
+    it("does nothing when no messages are due", async () => {
+      mock.method(storage, "claimDiscordMessages", async () => []);
+      const webhooks = mock.method(storage, "getDiscordWebhooks", async () => []);
+
+      assert.deepEqual(await deliverDiscordOutbox(now), { delivered: 0, failed: 0 });
+      assert.equal(webhooks.mock.callCount(), 0);
+    });
+  });
+});
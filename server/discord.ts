@@ -0,0 +1,297 @@
+import axios, { isAxiosError } from "axios";
+import { format } from "date-fns";
+import {
+  loaDurationDays,
+  type DiscordOutboxMessage,
+  type DiscordWebhook,
+  type LoaRequest,
+  type TransferRequest,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { portalEvents, type RequestActivityEvent } from "./events";
+import { scheduleJob } from "./jobs";
+import { placementLabel } from "./org";
+import { log } from "./vite";
+
+const DELIVERY_INTERVAL_MS = 10_000;
+const DELIVERY_BATCH_SIZE = 20;
+// How long a claimed message stays hidden from other runs while it is being posted
+const DELIVERY_LEASE_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Attempts before a message is given up on, and the backoff after the first failure
+// (doubled each time, capped at MAX_BACKOFF_MS)
+const MAX_ATTEMPTS = 10;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+const EMBED_COLORS = {
+  created: 0x3b82f6,
+  approved: 0x22c55e,
+  rejected: 0xef4444,
+  test: 0x6b7280,
+} as const;
+
+const DISCORD_WEBHOOK_HOSTS = ["discord.com", "discordapp.com", "canary.discord.com", "ptb.discord.com"];
+
+const http = axios.create({ timeout: REQUEST_TIMEOUT_MS });
+
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface DiscordEmbed {
+  title: string;
+  color: number;
+  fields: DiscordEmbedField[];
+  timestamp: string;
+  footer?: { text: string };
+}
+
+export interface DiscordMessagePayload {
+  username: string;
+  embeds: DiscordEmbed[];
+}
+
+// Discord answered, but not with success. Permanent failures (bad webhook, malformed
+// payload) are not retried.
+export class DiscordDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly permanent: boolean,
+    public readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = "DiscordDeliveryError";
+  }
+}
+
+// Webhook URLs must point at Discord in production. Elsewhere any http(s) URL is
+// accepted so deliveries can be pointed at a local stand-in.
+export function validateWebhookUrl(url: string, production: boolean): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+
+  if (!production) {
+    return ["http:", "https:"].includes(parsed.protocol) ? null : "Webhook URL must use http or https";
+  }
+
+  if (parsed.protocol !== "https:"
+    || !DISCORD_WEBHOOK_HOSTS.includes(parsed.hostname)
+    || !parsed.pathname.startsWith("/api/webhooks/")) {
+    return "Webhook URL must be a Discord webhook (https://discord.com/api/webhooks/...)";
+  }
+  return null;
+}
+
+// Discord rejects field values over 1024 characters
+function fieldValue(value: string | null | undefined) {
+  const text = value?.trim() || "—";
+  return text.length > 1024 ? `${text.slice(0, 1021)}...` : text;
+}
+
+function describeUser(user: User | undefined) {
+  return user ? user.robloxUsername : "Unknown user";
+}
+
+function actionTitle(action: RequestActivityEvent["action"]) {
+  return action === "created" ? "submitted" : action;
+}
+
+export function buildTransferEmbed(
+  action: RequestActivityEvent["action"],
+  request: TransferRequest,
+  requester: User | undefined,
+  reviewer: User | undefined,
+): DiscordEmbed {
+  const fields: DiscordEmbedField[] = [
+    { name: "Requester", value: fieldValue(describeUser(requester)), inline: true },
+    { name: "Status", value: request.status, inline: true },
+    { name: "From", value: fieldValue(placementLabel(request.currentDepartment, request.currentSubDepartment)) },
+    { name: "To", value: fieldValue(placementLabel(request.requestedDepartment, request.requestedSubDepartment)) },
+    { name: "Reason", value: fieldValue(request.reason) },
+  ];
+  if (reviewer) {
+    fields.push({ name: "Reviewed by", value: fieldValue(reviewer.robloxUsername), inline: true });
+  }
+  if (request.reviewNote) {
+    fields.push({ name: request.status === "Rejected" ? "Rejection reason" : "Review note", value: fieldValue(request.reviewNote) });
+  }
+
+  return {
+    title: `Transfer request ${actionTitle(action)}`,
+    color: EMBED_COLORS[action],
+    fields,
+    timestamp: new Date().toISOString(),
+    footer: { text: `Transfer ${request.id}` },
+  };
+}
+
+export function buildLoaEmbed(
+  action: RequestActivityEvent["action"],
+  request: LoaRequest,
+  requester: User | undefined,
+  reviewer: User | undefined,
+): DiscordEmbed {
+  const fields: DiscordEmbedField[] = [
+    { name: "Requester", value: fieldValue(describeUser(requester)), inline: true },
+    { name: "Department", value: fieldValue(requester ? placementLabel(requester.department, requester.subDepartment) : null), inline: true },
+    { name: "Status", value: request.status, inline: true },
+    { name: "Starts", value: format(request.startDate, "PPP"), inline: true },
+    { name: "Ends", value: format(request.endDate, "PPP"), inline: true },
+    { name: "Length", value: `${loaDurationDays(request.startDate, request.endDate)} days`, inline: true },
+    { name: "Reason", value: fieldValue(request.reason) },
+  ];
+  if (reviewer) {
+    fields.push({ name: "Reviewed by", value: fieldValue(reviewer.robloxUsername), inline: true });
+  }
+  if (request.reviewNote) {
+    fields.push({ name: request.status === "Rejected" ? "Rejection reason" : "Review note", value: fieldValue(request.reviewNote) });
+  }
+
+  return {
+    title: `LOA request ${actionTitle(action)}`,
+    color: EMBED_COLORS[action],
+    fields,
+    timestamp: new Date().toISOString(),
+    footer: { text: `LOA ${request.id}` },
+  };
+}
+
+function messagePayload(embed: DiscordEmbed): DiscordMessagePayload {
+  return { username: "Staff Portal", embeds: [embed] };
+}
+
+// Queues an embed for every webhook that covers the request's departments
+export async function enqueueRequestActivity(event: RequestActivityEvent) {
+  const reviewer = event.reviewerId ? await storage.getUser(event.reviewerId) : undefined;
+
+  let embed: DiscordEmbed;
+  let departments: string[];
+  if (event.requestType === "transfer") {
+    const request = await storage.getTransferRequest(event.requestId);
+    if (!request) return [];
+    const requester = await storage.getUser(request.userId);
+    embed = buildTransferEmbed(event.action, request, requester, reviewer);
+    departments = [request.currentDepartment, request.requestedDepartment];
+  } else {
+    const request = await storage.getLoaRequest(event.requestId);
+    if (!request) return [];
+    const requester = await storage.getUser(request.userId);
+    embed = buildLoaEmbed(event.action, request, requester, reviewer);
+    departments = requester?.department ? [requester.department] : [];
+  }
+
+  const targets = await storage.getDiscordWebhookTargets(departments);
+  return await storage.enqueueDiscordMessages(targets.map((webhook) => ({
+    webhookId: webhook.id,
+    event: `${event.requestType}.${event.action}`,
+    payload: messagePayload(embed),
+  })));
+}
+
+// Discord sends Retry-After in seconds, and retry_after (seconds) in 429 bodies
+function retryAfterMs(headers: Record<string, unknown>, data: unknown): number | null {
+  const header = Number(headers["retry-after"]);
+  if (!Number.isNaN(header) && header > 0) return header * 1000;
+
+  const body = (data as { retry_after?: unknown } | undefined)?.retry_after;
+  return typeof body === "number" ? body * 1000 : null;
+}
+
+export async function postToWebhook(url: string, payload: unknown): Promise<void> {
+  try {
+    await http.post(url, payload);
+  } catch (error) {
+    if (isAxiosError(error) && error.response) {
+      const status = error.response.status;
+      if (status === 429) {
+        throw new DiscordDeliveryError("Rate limited by Discord", false, retryAfterMs(error.response.headers, error.response.data));
+      }
+      // 4xx other than rate limits means the webhook is gone or the payload is bad;
+      // sending it again won't help
+      const permanent = status >= 400 && status < 500;
+      throw new DiscordDeliveryError(`Discord answered ${status}`, permanent);
+    }
+    throw new DiscordDeliveryError(error instanceof Error ? error.message : "Discord could not be reached", false);
+  }
+}
+
+function backoffMs(attempts: number) {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+async function deliverMessage(message: DiscordOutboxMessage, webhook: DiscordWebhook | undefined) {
+  if (!webhook || !webhook.enabled) {
+    await storage.markDiscordMessageFailed(message.id, "Webhook is disabled", null);
+    return false;
+  }
+
+  try {
+    await postToWebhook(webhook.url, message.payload);
+    await storage.markDiscordMessageDelivered(message.id);
+    return true;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const giveUp = (error instanceof DiscordDeliveryError && error.permanent) || message.attempts >= MAX_ATTEMPTS;
+    const waitMs = error instanceof DiscordDeliveryError && error.retryAfterMs !== null
+      ? error.retryAfterMs
+      : backoffMs(message.attempts);
+
+    await storage.markDiscordMessageFailed(message.id, reason, giveUp ? null : new Date(Date.now() + waitMs));
+    return false;
+  }
+}
+
+// Posts every due outbox message once
+export async function deliverDiscordOutbox(now = new Date()) {
+  const messages = await storage.claimDiscordMessages(now, new Date(now.getTime() + DELIVERY_LEASE_MS), DELIVERY_BATCH_SIZE);
+  if (messages.length === 0) return { delivered: 0, failed: 0 };
+
+  const webhooks = new Map((await storage.getDiscordWebhooks()).map((webhook) => [webhook.id, webhook]));
+
+  let delivered = 0;
+  for (const message of messages) {
+    if (await deliverMessage(message, webhooks.get(message.webhookId))) {
+      delivered++;
+    }
+  }
+
+  const failed = messages.length - delivered;
+  if (failed > 0) {
+    log(`Discord outbox: ${delivered} delivered, ${failed} failed`, "jobs");
+  }
+  return { delivered, failed };
+}
+
+// Sends a test embed straight away (not via the outbox) so admins see the result
+export async function sendTestMessage(webhook: DiscordWebhook, sentBy: User) {
+  await postToWebhook(webhook.url, messagePayload({
+    title: "Test message",
+    color: EMBED_COLORS.test,
+    fields: [
+      { name: "Channel", value: fieldValue(webhook.department ? placementLabel(webhook.department, null) : "Admin (all departments)"), inline: true },
+      { name: "Sent by", value: fieldValue(sentBy.robloxUsername), inline: true },
+    ],
+    timestamp: new Date().toISOString(),
+  }));
+}
+
+// Queues request activity for Discord and starts the delivery job. Queuing happens after
+// the route has answered; failures are logged and never reach the reviewer.
+export function startDiscordIntegration() {
+  portalEvents.on("request.activity", (event) => {
+    enqueueRequestActivity(event).catch((error) => {
+      console.error(`Failed to queue Discord message for ${event.requestType} ${event.requestId}:`, error);
+    });
+  });
+
+  return scheduleJob("Discord delivery", DELIVERY_INTERVAL_MS, () => deliverDiscordOutbox());
+}
@@ -0,0 +1,53 @@
+import { EventEmitter } from "events";
+import type { Notification, TransferRequest } from "@shared/schema";
+
+export type ReviewQueue = "transfer" | "loa" | "loa_adjustment" | "onboarding";
+
+export interface QueueChangedEvent {
+  queue: ReviewQueue;
+  requestId: string;
+  // Departments whose reviewers care (transfers, onboarding); omitted when every reviewer of the queue does
+  departments?: string[];
+}
+
+// A transfer or LOA request was submitted or reached its final decision
+export interface RequestActivityEvent {
+  requestType: "transfer" | "loa";
+  action: "created" | "approved" | "rejected";
+  requestId: string;
+  reviewerId?: string;
+}
+
+interface PortalEvents {
+  "notification.created": [Notification];
+  "notifications.read": [{ userId: string }];
+  "queue.changed": [QueueChangedEvent];
+  // reason is shown to the user's open tabs before they are disconnected
+  "sessions.revoked": [{ userId: string; reason?: string }];
+  // A user's rank, placement, onboarding or suspension may have changed (or they were deleted)
+  "user.changed": [{ userId: string }];
+  "request.activity": [RequestActivityEvent];
+}
+
+// In-process event bus: storage and routes publish, the real-time channel and Discord
+// integration subscribe
+class PortalEventBus extends EventEmitter {
+  emit<K extends keyof PortalEvents>(event: K, ...args: PortalEvents[K]): boolean {
+    return super.emit(event, ...args);
+  }
+
+  on<K extends keyof PortalEvents>(event: K, listener: (...args: PortalEvents[K]) => void): this {
+    return super.on(event, listener as (...args: unknown[]) => void);
+  }
+}
+
+export const portalEvents = new PortalEventBus();
+
+// Transfer reviewers are scoped by department, so only those involved need to hear about it
+export function emitTransferQueueChanged(request: TransferRequest) {
+  portalEvents.emit("queue.changed", {
+    queue: "transfer",
+    requestId: request.id,
+    departments: [request.currentDepartment, request.requestedDepartment],
+  });
+}
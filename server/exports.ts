@@ -0,0 +1,170 @@
+import type { Response } from "express";
+import {
+  loaDurationDays,
+  type User,
+  type RequestUser,
+  type TransferRequestWithUsers,
+  type LoaRequestWithUsers,
+} from "@shared/schema";
+
+type CellValue = string | number | boolean | Date | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  value: (row: T) => CellValue;
+}
+
+export type ExportFormat = "csv" | "json";
+
+// Thrown for an unknown column name; routes answer 400
+export class ExportColumnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportColumnError";
+  }
+}
+
+function username(user: RequestUser | null) {
+  return user ? user.robloxUsername : null;
+}
+
+export const TRANSFER_EXPORT_COLUMNS: ExportColumn<TransferRequestWithUsers>[] = [
+  { key: "id", value: (row) => row.id },
+  { key: "status", value: (row) => row.status },
+  { key: "requester", value: (row) => username(row.user) },
+  { key: "requesterId", value: (row) => row.userId },
+  { key: "currentDepartment", value: (row) => row.currentDepartment },
+  { key: "currentSubDepartment", value: (row) => row.currentSubDepartment },
+  { key: "requestedDepartment", value: (row) => row.requestedDepartment },
+  { key: "requestedSubDepartment", value: (row) => row.requestedSubDepartment },
+  { key: "reason", value: (row) => row.reason },
+  { key: "releaseStatus", value: (row) => row.releaseStatus },
+  { key: "releaseReviewer", value: (row) => username(row.releaseReviewer) },
+  { key: "releaseReviewedAt", value: (row) => row.releaseReviewedAt },
+  { key: "releaseNote", value: (row) => row.releaseNote },
+  { key: "acceptanceStatus", value: (row) => row.acceptanceStatus },
+  { key: "acceptanceReviewer", value: (row) => username(row.acceptanceReviewer) },
+  { key: "acceptanceReviewedAt", value: (row) => row.acceptanceReviewedAt },
+  { key: "acceptanceNote", value: (row) => row.acceptanceNote },
+  { key: "reviewer", value: (row) => username(row.reviewer) },
+  { key: "reviewedAt", value: (row) => row.reviewedAt },
+  { key: "reviewNote", value: (row) => row.reviewNote },
+  { key: "createdAt", value: (row) => row.createdAt },
+];
+
+export const LOA_EXPORT_COLUMNS: ExportColumn<LoaRequestWithUsers>[] = [
+  { key: "id", value: (row) => row.id },
+  { key: "status", value: (row) => row.status },
+  { key: "phase", value: (row) => row.phase },
+  { key: "requester", value: (row) => username(row.user) },
+  { key: "requesterId", value: (row) => row.userId },
+  { key: "department", value: (row) => row.user.department },
+  { key: "subDepartment", value: (row) => row.user.subDepartment },
+  { key: "startDate", value: (row) => row.startDate },
+  { key: "endDate", value: (row) => row.endDate },
+  { key: "days", value: (row) => loaDurationDays(row.startDate, row.endDate) },
+  { key: "reason", value: (row) => row.reason },
+  { key: "reviewer", value: (row) => username(row.reviewer) },
+  { key: "reviewedAt", value: (row) => row.reviewedAt },
+  { key: "reviewNote", value: (row) => row.reviewNote },
+  { key: "createdAt", value: (row) => row.createdAt },
+];
+
+export const ROSTER_EXPORT_COLUMNS: ExportColumn<User>[] = [
+  { key: "id", value: (row) => row.id },
+  { key: "robloxUsername", value: (row) => row.robloxUsername },
+  { key: "robloxUserId", value: (row) => row.robloxUserId },
+  { key: "rank", value: (row) => row.rank },
+  { key: "rankId", value: (row) => row.rankId },
+  { key: "department", value: (row) => row.department },
+  { key: "subDepartment", value: (row) => row.subDepartment },
+  { key: "onLeave", value: (row) => row.onLeave },
+  { key: "onLeaveUntil", value: (row) => row.onLeaveUntil },
+  { key: "verifiedAt", value: (row) => row.verifiedAt },
+  { key: "lastLogin", value: (row) => row.lastLogin },
+];
+
+// Picks columns from a comma-separated list (in the order given), or all of them
+export function selectColumns<T>(available: ExportColumn<T>[], requested: string | undefined): ExportColumn<T>[] {
+  if (!requested) return available;
+
+  const keys = requested.split(",").map((key) => key.trim()).filter(Boolean);
+  const unknown = keys.filter((key) => !available.some((column) => column.key === key));
+  if (unknown.length > 0) {
+    throw new ExportColumnError(
+      `Unknown column${unknown.length > 1 ? "s" : ""} ${unknown.join(", ")}. Available: ${available.map((column) => column.key).join(", ")}`,
+    );
+  }
+  if (keys.length === 0) {
+    throw new ExportColumnError("Pick at least one column");
+  }
+
+  return keys.map((key) => available.find((column) => column.key === key)!);
+}
+
+function jsonValue(value: CellValue) {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Quotes a CSV cell when needed. Cells that a spreadsheet would read as a formula get a
+// leading apostrophe so exported free text can't run as one.
+function csvCell(value: CellValue) {
+  if (value === null) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Writes and, when the socket's buffer is full, waits for it to drain (or close)
+async function write(res: Response, chunk: string) {
+  if (res.write(chunk)) return;
+
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+// Streams rows to the response as they arrive from the database. Stops early if the
+// client goes away.
+export async function streamExport<T>(
+  res: Response,
+  format: ExportFormat,
+  filename: string,
+  columns: ExportColumn<T>[],
+  batches: AsyncIterable<T[]>,
+) {
+  res.status(200).set({
+    "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename}.${format}"`,
+    "Cache-Control": "no-store",
+  });
+
+  let first = true;
+  await write(res, format === "csv" ? `${columns.map((column) => column.key).join(",")}\r\n` : "[");
+
+  for await (const batch of batches) {
+    if (res.destroyed) return;
+
+    const chunk = batch.map((row) => {
+      if (format === "csv") {
+        return `${columns.map((column) => csvCell(column.value(row))).join(",")}\r\n`;
+      }
+      const entry = Object.fromEntries(columns.map((column) => [column.key, jsonValue(column.value(row))]));
+      const json = `${first ? "" : ","}\n${JSON.stringify(entry)}`;
+      first = false;
+      return json;
+    }).join("");
+
+    await write(res, chunk);
+  }
+
+  res.end(format === "csv" ? "" : "\n]\n");
+}
@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { loadAllSettings } from "./config";
+import { loadOrgStructure } from "./org";
+import { startRankSyncJob } from "./rank-sync";
+import { startLoaLifecycleJob, refreshLoaLifecycle } from "./loa-lifecycle";
+import { startDiscordIntegration } from "./discord";
 
 const app = express();
 
@@ -50,6 +55,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail fast on invalid configuration rather than serving with broken rank checks
+  await loadAllSettings();
+  await loadOrgStructure();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -80,5 +89,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startRankSyncJob();
+    startLoaLifecycleJob();
+    startDiscordIntegration();
+    void refreshLoaLifecycle();
   });
 })();
@@ -0,0 +1,29 @@
+import { log } from "./vite";
+
+// Runs a background job every intervalMs. A run that is still going when the next one
+// is due is skipped rather than overlapped, and failures are logged without stopping
+// the schedule.
+export function scheduleJob(name: string, intervalMs: number, run: () => Promise<unknown>) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      log(`skipping ${name}: previous run still in progress`, "jobs");
+      return;
+    }
+
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  // Don't keep the process alive just for background jobs
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,60 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { scheduleJob } from "./jobs";
+import { log } from "./vite";
+
+const LOA_LIFECYCLE_INTERVAL_MS = 5 * 60 * 1000;
+// Reminders go out when an LOA starts or ends within this window
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Moves approved LOAs through Upcoming → Active → Completed, refreshes who is on leave,
+// and sends the day-before start and end reminders
+export async function runLoaLifecycle(now = new Date()) {
+  const phasesChanged = await storage.updateLoaPhases(now);
+  const usersChanged = await storage.syncOnLeaveFlags(now);
+
+  const until = new Date(now.getTime() + REMINDER_WINDOW_MS);
+
+  const starting = await storage.claimLoaReminders("start", now, until);
+  for (const loa of starting) {
+    await storage.createNotification({
+      userId: loa.userId,
+      message: `Reminder: your LOA starts ${format(loa.startDate, "PPP")}`,
+      type: "loa_starting",
+      requestId: loa.id,
+      requestType: "loa",
+    });
+  }
+
+  const ending = await storage.claimLoaReminders("end", now, until);
+  for (const loa of ending) {
+    await storage.createNotification({
+      userId: loa.userId,
+      message: `Reminder: your LOA ends ${format(loa.endDate, "PPP")}`,
+      type: "loa_ending",
+      requestId: loa.id,
+      requestType: "loa",
+    });
+  }
+
+  if (phasesChanged || usersChanged || starting.length || ending.length) {
+    log(
+      `LOA lifecycle: ${phasesChanged} phase changes, ${usersChanged} leave flags updated, ${starting.length} start and ${ending.length} end reminders`,
+      "jobs",
+    );
+  }
+}
+
+// Runs the lifecycle straight after an LOA changes so the on-leave flag doesn't wait for
+// the next scheduled run. The change itself already succeeded, so failures are only logged.
+export async function refreshLoaLifecycle() {
+  try {
+    await runLoaLifecycle();
+  } catch (error) {
+    console.error("LOA lifecycle refresh failed:", error);
+  }
+}
+
+export function startLoaLifecycleJob() {
+  return scheduleJob("LOA lifecycle", LOA_LIFECYCLE_INTERVAL_MS, () => runLoaLifecycle());
+}
@@ -0,0 +1,217 @@
+import { sql } from "drizzle-orm";
+import { departments, subDepartments, type CoverageSettings } from "@shared/schema";
+import { db, pool } from "./db";
+import { DEFAULT_ORG_STRUCTURE } from "./org";
+
+// Moves a database onto the departments and sub_departments tables. `npm run db:push` runs
+// this before drizzle-kit, because push adds foreign keys from users, requests, webhooks and
+// calendar feeds to those tables and fails while any row still holds something else.
+//
+// Before the org structure moved into the database those columns held names ("HR",
+// "Recruitment"), and the first seeding used the names as ids. In one transaction this:
+//   1. creates the two tables if push hasn't yet, and drops foreign keys into them (push
+//      adds them back),
+//   2. gives units whose id is their name a generated id,
+//   3. seeds the default structure into an empty table,
+//   4. adds names still in use but no longer in the structure as archived units,
+//   5. replaces names with ids in every placement column and the coverage settings.
+// Only rows still holding a name are touched, so running it again changes nothing.
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface PlacementColumns {
+  table: string;
+  department: string;
+  // The sub-department column placed under `department`, if the table has one
+  subDepartment: string | null;
+}
+
+const PLACEMENT_COLUMNS: PlacementColumns[] = [
+  { table: "users", department: "department", subDepartment: "sub_department" },
+  { table: "transfer_requests", department: "current_department", subDepartment: "current_sub_department" },
+  { table: "transfer_requests", department: "requested_department", subDepartment: "requested_sub_department" },
+  { table: "onboarding_claims", department: "department", subDepartment: "sub_department" },
+  { table: "department_assignments", department: "from_department", subDepartment: "from_sub_department" },
+  { table: "department_assignments", department: "to_department", subDepartment: "to_sub_department" },
+  { table: "discord_webhooks", department: "department", subDepartment: null },
+  { table: "calendar_feed_tokens", department: "department", subDepartment: null },
+];
+
+async function prepareOrgTables(tx: Transaction) {
+  await tx.execute(sql`
+    CREATE TABLE IF NOT EXISTS "departments" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+      "name" text NOT NULL,
+      "archived" boolean DEFAULT false NOT NULL,
+      "headcount_cap" integer,
+      "sort_order" integer DEFAULT 0 NOT NULL,
+      "created_at" timestamp DEFAULT now() NOT NULL,
+      CONSTRAINT "departments_name_unique" UNIQUE("name")
+    )
+  `);
+  await tx.execute(sql`
+    CREATE TABLE IF NOT EXISTS "sub_departments" (
+      "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+      "department_id" varchar NOT NULL,
+      "name" text NOT NULL,
+      "archived" boolean DEFAULT false NOT NULL,
+      "headcount_cap" integer,
+      "sort_order" integer DEFAULT 0 NOT NULL,
+      "created_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+  await tx.execute(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS "sub_departments_name_idx" ON "sub_departments" USING btree ("department_id", "name")
+  `);
+
+  const { rows } = await tx.execute<{ table_name: string; constraint_name: string }>(sql`
+    SELECT conrelid::regclass::text AS table_name, conname AS constraint_name
+    FROM pg_constraint
+    WHERE contype = 'f' AND confrelid IN ('departments'::regclass, 'sub_departments'::regclass)
+  `);
+  for (const { table_name, constraint_name } of rows) {
+    await tx.execute(sql`ALTER TABLE ${sql.raw(table_name)} DROP CONSTRAINT ${sql.identifier(constraint_name)}`);
+  }
+}
+
+async function rekeyNamedUnits(tx: Transaction) {
+  await tx.execute(sql`UPDATE departments SET id = gen_random_uuid() WHERE id = name`);
+  await tx.execute(sql`
+    UPDATE sub_departments SET department_id = departments.id
+    FROM departments
+    WHERE sub_departments.department_id = departments.name
+  `);
+  await tx.execute(sql`UPDATE sub_departments SET id = gen_random_uuid() WHERE id = name`);
+}
+
+async function seedDefaultStructure(tx: Transaction) {
+  const [existing] = await tx.select({ id: departments.id }).from(departments).limit(1);
+  if (existing) return;
+
+  const names = Object.keys(DEFAULT_ORG_STRUCTURE);
+  const seeded = await tx
+    .insert(departments)
+    .values(names.map((name, index) => ({ name, sortOrder: index })))
+    .returning();
+  await tx.insert(subDepartments).values(seeded.flatMap((department) =>
+    DEFAULT_ORG_STRUCTURE[department.name].map((name, index) => ({ departmentId: department.id, name, sortOrder: index }))
+  ));
+}
+
+// "table.column" for every column in the database, so steps can skip tables and columns
+// that a later push adds
+async function getColumns(tx: Transaction): Promise<Set<string>> {
+  const { rows } = await tx.execute<{ table_name: string; column_name: string }>(sql`
+    SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = 'public'
+  `);
+  return new Set(rows.map((row) => `${row.table_name}.${row.column_name}`));
+}
+
+function getPlacementColumns(columns: Set<string>): PlacementColumns[] {
+  const has = (table: string, column: string) => columns.has(`${table}.${column}`);
+
+  return PLACEMENT_COLUMNS
+    .filter((placement) => has(placement.table, placement.department))
+    .map((placement) => ({
+      ...placement,
+      subDepartment: placement.subDepartment && has(placement.table, placement.subDepartment) ? placement.subDepartment : null,
+    }));
+}
+
+async function addUnitsStillInUse(tx: Transaction, placements: PlacementColumns[]) {
+  for (const { table, department, subDepartment } of placements) {
+    const departmentColumn = sql`t.${sql.identifier(department)}`;
+    await tx.execute(sql`
+      INSERT INTO departments (name, archived, sort_order)
+      SELECT DISTINCT ${departmentColumn}, true, (SELECT coalesce(max(sort_order), -1) + 1 FROM departments)
+      FROM ${sql.identifier(table)} t
+      WHERE ${departmentColumn} IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM departments d WHERE d.id = ${departmentColumn} OR d.name = ${departmentColumn})
+      ON CONFLICT DO NOTHING
+    `);
+
+    if (!subDepartment) continue;
+    const subDepartmentColumn = sql`t.${sql.identifier(subDepartment)}`;
+    await tx.execute(sql`
+      INSERT INTO sub_departments (department_id, name, archived, sort_order)
+      SELECT DISTINCT d.id, ${subDepartmentColumn}, true,
+        (SELECT coalesce(max(s.sort_order), -1) + 1 FROM sub_departments s WHERE s.department_id = d.id)
+      FROM ${sql.identifier(table)} t
+      JOIN departments d ON d.id = ${departmentColumn} OR d.name = ${departmentColumn}
+      WHERE ${subDepartmentColumn} IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM sub_departments s
+          WHERE s.department_id = d.id AND (s.id = ${subDepartmentColumn} OR s.name = ${subDepartmentColumn})
+        )
+      ON CONFLICT DO NOTHING
+    `);
+  }
+}
+
+// Sub-departments first, while the department column still says which one a name belongs to
+async function replaceNamesWithIds(tx: Transaction, placements: PlacementColumns[]) {
+  for (const { table, department, subDepartment } of placements) {
+    const departmentColumn = sql`t.${sql.identifier(department)}`;
+    if (subDepartment) {
+      await tx.execute(sql`
+        UPDATE ${sql.identifier(table)} t SET ${sql.identifier(subDepartment)} = s.id
+        FROM sub_departments s JOIN departments d ON d.id = s.department_id
+        WHERE t.${sql.identifier(subDepartment)} = s.name AND (${departmentColumn} = d.name OR ${departmentColumn} = d.id)
+      `);
+    }
+    await tx.execute(sql`
+      UPDATE ${sql.identifier(table)} t SET ${sql.identifier(department)} = d.id
+      FROM departments d
+      WHERE ${departmentColumn} = d.name
+    `);
+  }
+}
+
+async function migrateCoverageSettings(tx: Transaction) {
+  const { rows: [setting] } = await tx.execute<{ value: Partial<CoverageSettings> }>(sql`
+    SELECT value FROM portal_settings WHERE key = 'coverage'
+  `);
+  const minimums = setting?.value.subDepartmentMinimums;
+  if (!Array.isArray(minimums)) return;
+
+  const departmentRows = await tx.select().from(departments);
+  const subDepartmentRows = await tx.select().from(subDepartments);
+  const migrated = minimums.map((minimum) => {
+    const department = departmentRows.find((row) => row.id === minimum.department || row.name === minimum.department);
+    const subDepartment = department && subDepartmentRows.find((row) =>
+      row.departmentId === department.id && (row.id === minimum.subDepartment || row.name === minimum.subDepartment)
+    );
+    return department && subDepartment
+      ? { ...minimum, department: department.id, subDepartment: subDepartment.id }
+      : minimum;
+  });
+
+  await tx.execute(sql`
+    UPDATE portal_settings SET value = ${JSON.stringify({ ...setting.value, subDepartmentMinimums: migrated })}::jsonb
+    WHERE key = 'coverage'
+  `);
+}
+
+async function migrateOrgStructure() {
+  await db.transaction(async (tx) => {
+    await prepareOrgTables(tx);
+    await rekeyNamedUnits(tx);
+    await seedDefaultStructure(tx);
+
+    const columns = await getColumns(tx);
+    const placements = getPlacementColumns(columns);
+    await addUnitsStillInUse(tx, placements);
+    await replaceNamesWithIds(tx, placements);
+    if (columns.has("portal_settings.value")) {
+      await migrateCoverageSettings(tx);
+    }
+  });
+}
+
+migrateOrgStructure()
+  .then(() => console.log("Org structure migrated"))
+  .catch((error) => {
+    console.error("Org structure migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,106 @@
+import { describe, it, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Department, SubDepartment } from "@shared/schema";
+import { storage } from "./storage";
+import { loadOrgStructure, validatePlacement, checkHeadcount, DEFAULT_ORG_STRUCTURE } from "./org";
+
+const createdAt = new Date("2026-01-01T00:00:00Z");
+
+function department(id: string, name: string, overrides: Partial<Department> = {}): Department {
+  return { id, name, archived: false, headcountCap: null, sortOrder: 0, createdAt, ...overrides };
+}
+
+function subDepartment(id: string, departmentId: string, name: string, overrides: Partial<SubDepartment> = {}): SubDepartment {
+  return { id, departmentId, name, archived: false, headcountCap: null, sortOrder: 0, createdAt, ...overrides };
+}
+
+// The org queries need Postgres; here storage hands loadOrgStructure a fixed structure
+describe("Org structure", () => {
+  beforeEach(async () => {
+    mock.restoreAll();
+    mock.method(storage, "getDepartments", async () => [
+      department("hr", "HR", { headcountCap: 3 }),
+      department("pr", "PR"),
+      department("old", "Old Department", { archived: true }),
+    ]);
+    mock.method(storage, "getSubDepartments", async () => [
+      subDepartment("recruitment", "hr", "Recruitment", { headcountCap: 2 }),
+      subDepartment("training", "hr", "Training"),
+      subDepartment("retired", "hr", "Retired", { archived: true }),
+      subDepartment("brand", "pr", "Brand"),
+      subDepartment("archive", "old", "Archive"),
+    ]);
+    await loadOrgStructure();
+  });
+
+  it("seeds the default structure into an empty database", async () => {
+    const getDepartments = mock.method(storage, "getDepartments", async () => []);
+    const seed = mock.method(storage, "seedOrgStructure", async () => {
+      getDepartments.mock.mockImplementation(async () => [department("hr", "HR")]);
+    });
+
+    const { departments } = await loadOrgStructure();
+
+    assert.deepEqual(seed.mock.calls[0].arguments, [DEFAULT_ORG_STRUCTURE]);
+    assert.deepEqual(departments.map((row) => row.name), ["HR"]);
+  });
+
+  describe("validatePlacement", () => {
+    it("accepts an active sub-department of the department", () => {
+      assert.equal(validatePlacement("hr", "training"), null);
+    });
+
+    it("rejects unknown departments and sub-departments of another department", () => {
+      assert.equal(validatePlacement("nope", "training"), "Unknown department");
+      assert.equal(validatePlacement("hr", "brand"), "HR has no such sub-department");
+      assert.equal(validatePlacement("hr", "nope"), "HR has no such sub-department");
+    });
+
+    it("rejects archived departments and sub-departments", () => {
+      assert.equal(validatePlacement("old", "archive"), "Old Department is archived");
+      assert.equal(validatePlacement("hr", "retired"), "HR / Retired is archived");
+    });
+  });
+
+  describe("checkHeadcount", () => {
+    const newcomer = { department: "pr", subDepartment: "brand" };
+
+    function headcounts(rows: { department: string; subDepartment: string; count: number }[]) {
+      return mock.method(storage, "getHeadcounts", async () => rows);
+    }
+
+    it("skips the count when no cap applies", async () => {
+      const counts = headcounts([]);
+      assert.equal(await checkHeadcount(newcomer, "pr", "brand"), null);
+      assert.equal(counts.mock.callCount(), 0);
+    });
+
+    it("turns newcomers away from a full department", async () => {
+      headcounts([
+        { department: "hr", subDepartment: "recruitment", count: 1 },
+        { department: "hr", subDepartment: "training", count: 2 },
+      ]);
+      assert.equal(await checkHeadcount(newcomer, "hr", "training"), "HR is full (3 members)");
+    });
+
+    it("counts members moving within the department against the sub-department cap only", async () => {
+      const member = { department: "hr", subDepartment: "training" };
+      headcounts([
+        { department: "hr", subDepartment: "recruitment", count: 1 },
+        { department: "hr", subDepartment: "training", count: 2 },
+      ]);
+      assert.equal(await checkHeadcount(member, "hr", "recruitment"), null);
+
+      headcounts([
+        { department: "hr", subDepartment: "recruitment", count: 2 },
+        { department: "hr", subDepartment: "training", count: 1 },
+      ]);
+      assert.equal(await checkHeadcount(member, "hr", "recruitment"), "HR / Recruitment is full (2 members)");
+    });
+
+    it("never turns members away from where they already are", async () => {
+      headcounts([{ department: "hr", subDepartment: "recruitment", count: 3 }]);
+      assert.equal(await checkHeadcount({ department: "hr", subDepartment: "recruitment" }, "hr", "recruitment"), null);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  Department,
+  SubDepartment,
+  OrgDepartment,
+  User,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Seeded into an empty database with generated ids, department names first. Databases that
+// stored these names before the structure moved into the database are moved onto the ids by
+// server/migrate-org.ts.
+export const DEFAULT_ORG_STRUCTURE: Record<string, string[]> = {
+  "HR": ["Recruitment", "Training", "Employee Relations"],
+  "Staff Management": ["Performance", "Scheduling", "Operations"],
+  "Internal Affairs": ["Compliance", "Investigations", "Quality Assurance"],
+  "Professional Development": ["Learning", "Mentorship", "Career Growth"],
+  "PR": ["Communications", "Media Relations", "Brand"],
+  "Engagement and Marketing": ["Community", "Events", "Campaigns"],
+  "Socials": ["Content Creation", "Social Media", "Graphics"],
+  "Affiliates": ["Partnerships", "Relations", "Outreach"],
+};
+
+// The structure is small and read on most requests, so it is kept in memory like the
+// portal settings. Routes that change it call loadOrgStructure() afterwards.
+let departments: Department[] = [];
+let subDepartments: SubDepartment[] = [];
+
+export async function loadOrgStructure() {
+  let loaded = await storage.getDepartments();
+
+  if (loaded.length === 0) {
+    await storage.seedOrgStructure(DEFAULT_ORG_STRUCTURE);
+    loaded = await storage.getDepartments();
+  }
+
+  departments = loaded;
+  subDepartments = await storage.getSubDepartments();
+  return { departments, subDepartments };
+}
+
+export function getDepartments(): Department[] {
+  return departments;
+}
+
+export function getDepartment(id: string): Department | undefined {
+  return departments.find((department) => department.id === id);
+}
+
+export function getSubDepartment(id: string): SubDepartment | undefined {
+  return subDepartments.find((subDepartment) => subDepartment.id === id);
+}
+
+export function getSubDepartmentsOf(departmentId: string): SubDepartment[] {
+  return subDepartments.filter((subDepartment) => subDepartment.departmentId === departmentId);
+}
+
+// "Department / Sub-department" by display name, for messages. Ids that are no longer in
+// the structure are shown as they are.
+export function placementLabel(departmentId: string | null, subDepartmentId: string | null) {
+  const department = departmentId ? getDepartment(departmentId)?.name ?? departmentId : "No department";
+  const subDepartment = subDepartmentId ? getSubDepartment(subDepartmentId)?.name ?? subDepartmentId : null;
+  return subDepartment ? `${department} / ${subDepartment}` : department;
+}
+
+// Why nobody can be placed in this department and sub-department, or null if they can
+export function validatePlacement(departmentId: string, subDepartmentId: string): string | null {
+  const department = getDepartment(departmentId);
+  if (!department) return "Unknown department";
+
+  const subDepartment = getSubDepartment(subDepartmentId);
+  if (!subDepartment || subDepartment.departmentId !== department.id) {
+    return `${department.name} has no such sub-department`;
+  }
+
+  if (department.archived) return `${department.name} is archived`;
+  if (subDepartment.archived) return `${department.name} / ${subDepartment.name} is archived`;
+  return null;
+}
+
+// Whether moving the user into the placement would go over a headcount cap. Someone
+// already in the department only counts against the sub-department's cap.
+export async function checkHeadcount(
+  user: Pick<User, "department" | "subDepartment">,
+  departmentId: string,
+  subDepartmentId: string,
+): Promise<string | null> {
+  const department = getDepartment(departmentId);
+  const subDepartment = getSubDepartment(subDepartmentId);
+  const departmentCap = user.department === departmentId ? null : department?.headcountCap ?? null;
+  const subDepartmentCap = user.subDepartment === subDepartmentId ? null : subDepartment?.headcountCap ?? null;
+  if (departmentCap === null && subDepartmentCap === null) return null;
+
+  const headcounts = await storage.getHeadcounts();
+  const inDepartment = headcounts
+    .filter((row) => row.department === departmentId)
+    .reduce((total, row) => total + row.count, 0);
+  const inSubDepartment = headcounts
+    .filter((row) => row.department === departmentId && row.subDepartment === subDepartmentId)
+    .reduce((total, row) => total + row.count, 0);
+
+  if (departmentCap !== null && inDepartment >= departmentCap) {
+    return `${department!.name} is full (${departmentCap} members)`;
+  }
+  if (subDepartmentCap !== null && inSubDepartment >= subDepartmentCap) {
+    return `${placementLabel(departmentId, subDepartmentId)} is full (${subDepartmentCap} members)`;
+  }
+  return null;
+}
+
+export async function getOrgTree(): Promise<OrgDepartment[]> {
+  const headcounts = await storage.getHeadcounts();
+  const count = (match: (row: typeof headcounts[number]) => boolean) =>
+    headcounts.filter(match).reduce((total, row) => total + row.count, 0);
+
+  return departments.map((department) => ({
+    ...department,
+    memberCount: count((row) => row.department === department.id),
+    subDepartments: getSubDepartmentsOf(department.id).map((subDepartment) => ({
+      ...subDepartment,
+      memberCount: count((row) => row.department === department.id && row.subDepartment === subDepartment.id),
+    })),
+  }));
+}
@@ -0,0 +1,124 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { getRobloxSettings } from "./config";
+import { getDepartment } from "./org";
+import { isSuspended, type User, type Permission, type PermissionScope, type EffectivePermission } from "@shared/schema";
+
+// The rank thresholds come from the Roblox settings, so re-tiering the group only needs
+// a settings change
+type RankTier = "leadership" | "executive";
+
+interface PermissionGrant {
+  permission: Permission;
+  minRank: RankTier;
+  scope: PermissionScope;
+  // When set, only members of the departments with these names receive the grant (names,
+  // because department ids are generated per database)
+  departments?: string[];
+}
+
+const PERMISSION_GRANTS: PermissionGrant[] = [
+  { permission: "transfer.review", minRank: "leadership", scope: "department" },
+  { permission: "transfer.review", minRank: "executive", scope: "global" },
+  { permission: "onboarding.review", minRank: "leadership", scope: "department" },
+  { permission: "onboarding.review", minRank: "executive", scope: "global" },
+  { permission: "loa.review", minRank: "executive", scope: "global" },
+  { permission: "coverage.view", minRank: "leadership", scope: "department" },
+  { permission: "coverage.view", minRank: "executive", scope: "global" },
+  { permission: "users.manage", minRank: "executive", scope: "global" },
+  { permission: "settings.manage", minRank: "executive", scope: "global" },
+  { permission: "org.manage", minRank: "executive", scope: "global" },
+  { permission: "audit.view", minRank: "executive", scope: "global" },
+  // Internal Affairs investigates disputes across every department
+  { permission: "audit.view", minRank: "leadership", scope: "global", departments: ["Internal Affairs"] },
+];
+
+function minRankIdFor(tier: RankTier): number {
+  const { leadershipMinRankId, executiveMinRankId } = getRobloxSettings();
+  return tier === "leadership" ? leadershipMinRankId : executiveMinRankId;
+}
+
+// Every permission the user holds, with global grants taking precedence over department ones.
+// Users still onboarding hold none, so anyone holding a permission has a department.
+export function getEffectivePermissions(user: User): EffectivePermission[] {
+  const effective = new Map<Permission, PermissionScope>();
+  if (user.onboardingStatus !== "Complete" || !user.department) return [];
+
+  for (const grant of PERMISSION_GRANTS) {
+    if (user.rankId < minRankIdFor(grant.minRank)) continue;
+    if (grant.departments && !grant.departments.includes(getDepartment(user.department)?.name ?? "")) continue;
+    if (effective.get(grant.permission) === "global") continue;
+    effective.set(grant.permission, grant.scope);
+  }
+
+  return Array.from(effective, ([permission, scope]) => ({ permission, scope }));
+}
+
+// Checks a permission, optionally against a specific department. Without a department,
+// any grant of the permission counts.
+export function hasPermission(user: User, permission: Permission, department?: string): boolean {
+  const grant = getEffectivePermissions(user).find((p) => p.permission === permission);
+  if (!grant) return false;
+  if (grant.scope === "global" || department === undefined) return true;
+  return user.department === department;
+}
+
+export function hasGlobalPermission(user: User, permission: Permission): boolean {
+  return getEffectivePermissions(user).some((p) => p.permission === permission && p.scope === "global");
+}
+
+// How far a permission reaches for listing and exporting: everything, one department, or
+// nothing when the user doesn't hold it (or holds a department grant without a department)
+export type PermissionReach = { scope: "global" } | { scope: "department"; department: string };
+
+export function getPermissionReach(user: User, permission: Permission): PermissionReach | null {
+  const grant = getEffectivePermissions(user).find((p) => p.permission === permission);
+  if (!grant) return null;
+  if (grant.scope === "global") return { scope: "global" };
+  return user.department ? { scope: "department", department: user.department } : null;
+}
+
+// Admins manage users ranked below them, never themselves or their peers
+export function canManageUser(admin: User, target: User): boolean {
+  return admin.id !== target.id && target.rankId < admin.rankId;
+}
+
+// Body of the 403 a suspended user gets at sign-in and on every request
+export function suspensionResponse(user: User) {
+  const until = user.suspendedUntil ? ` until ${user.suspendedUntil.toISOString()}` : "";
+  return {
+    message: `Your portal access is suspended${until}: ${user.suspensionReason}`,
+    reason: user.suspensionReason,
+    suspendedUntil: user.suspendedUntil,
+  };
+}
+
+// Middleware to check the signed-in user holds every listed permission in some scope.
+// Routes that act on a specific department still check it with hasPermission.
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (isSuspended(user)) {
+        req.session.destroy(() => {});
+        return res.status(403).json(suspensionResponse(user));
+      }
+
+      const missing = permissions.filter((permission) => !hasPermission(user, permission));
+      if (missing.length > 0) {
+        return res.status(403).json({ message: `Forbidden: missing permission ${missing.join(", ")}` });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import type {
+  RequestUser,
+  UserSummary,
+  TransferRequestWithUsers,
+  TransferRequestWithProfiles,
+  LoaRequestWithUsers,
+  LoaRequestWithProfiles,
+  StaffMemberRow,
+  StaffMember,
+  OnboardingClaimWithUsers,
+  OnboardingClaimWithProfiles,
+} from "@shared/schema";
+import { getAvatarUrls } from "./roblox";
+
+type AvatarUrls = Map<number, string | null>;
+
+// One avatar lookup for every requester and reviewer on the page
+async function loadAvatars(users: (RequestUser | null)[]): Promise<AvatarUrls> {
+  const robloxIds = users
+    .filter((user): user is RequestUser => user !== null)
+    .map((user) => Number(user.robloxUserId))
+    // Anonymised users no longer have a Roblox id
+    .filter((robloxId) => Number.isSafeInteger(robloxId));
+  return await getAvatarUrls(robloxIds);
+}
+
+function toSummary(user: RequestUser, avatars: AvatarUrls): UserSummary;
+function toSummary(user: RequestUser | null, avatars: AvatarUrls): UserSummary | null;
+function toSummary(user: RequestUser | null, avatars: AvatarUrls): UserSummary | null {
+  if (!user) return null;
+  return { ...user, avatarUrl: avatars.get(Number(user.robloxUserId)) ?? null };
+}
+
+export async function withTransferProfiles(requests: TransferRequestWithUsers[]): Promise<TransferRequestWithProfiles[]> {
+  const avatars = await loadAvatars(requests.flatMap((request) => [
+    request.user,
+    request.reviewer,
+    request.releaseReviewer,
+    request.acceptanceReviewer,
+  ]));
+
+  return requests.map((request) => ({
+    ...request,
+    user: toSummary(request.user, avatars),
+    reviewer: toSummary(request.reviewer, avatars),
+    releaseReviewer: toSummary(request.releaseReviewer, avatars),
+    acceptanceReviewer: toSummary(request.acceptanceReviewer, avatars),
+  }));
+}
+
+export async function withLoaProfiles(requests: LoaRequestWithUsers[]): Promise<LoaRequestWithProfiles[]> {
+  const avatars = await loadAvatars(requests.flatMap((request) => [request.user, request.reviewer]));
+
+  return requests.map((request) => ({
+    ...request,
+    user: toSummary(request.user, avatars),
+    reviewer: toSummary(request.reviewer, avatars),
+  }));
+}
+
+export async function withOnboardingProfiles(claims: OnboardingClaimWithUsers[]): Promise<OnboardingClaimWithProfiles[]> {
+  const avatars = await loadAvatars(claims.flatMap((claim) => [claim.user, claim.reviewer]));
+
+  return claims.map((claim) => ({
+    ...claim,
+    user: toSummary(claim.user, avatars),
+    reviewer: toSummary(claim.reviewer, avatars),
+  }));
+}
+
+export async function withStaffProfiles(members: StaffMemberRow[]): Promise<StaffMember[]> {
+  const avatars = await loadAvatars(members);
+  return members.map((member) => ({ ...member, avatarUrl: avatars.get(Number(member.robloxUserId)) ?? null }));
+}
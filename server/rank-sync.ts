@@ -0,0 +1,120 @@
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import * as roblox from "./roblox";
+import { scheduleJob } from "./jobs";
+import { recordAudit } from "./audit";
+import { log } from "./vite";
+
+const RANK_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface RankSyncSummary {
+  checked: number;
+  updated: number;
+  revoked: number;
+  failed: number;
+  // Set when Roblox went down mid-run and the remaining users were left for next time
+  aborted: boolean;
+}
+
+let syncInProgress = false;
+
+export function isRankSyncRunning() {
+  return syncInProgress;
+}
+
+// Re-checks one user against the Roblox group. Updates their rank if it changed, and
+// signs them out everywhere if they no longer qualify for the portal.
+export async function syncUserRank(user: User): Promise<"unchanged" | "updated" | "revoked"> {
+  const rankInfo = await roblox.verifyUserRank(parseInt(user.robloxUserId, 10));
+  const rankId = rankInfo.rankId ?? 0;
+  const rank = roblox.mapRankIdToName(rankId);
+  const rankChanged = rank !== user.rank || rankId !== user.rankId;
+
+  // Sessions are cleared on every run while the user doesn't qualify, but they are only
+  // told (and a change recorded) when something actually changed
+  const sessionsEnded = rankInfo.valid ? 0 : await storage.destroySessionsForUser(user.id);
+  const revoked = !rankInfo.valid && (rankChanged || sessionsEnded > 0);
+
+  if (!rankChanged && !revoked) {
+    return "unchanged";
+  }
+
+  if (rankChanged) {
+    await storage.setUserRank(user.id, rank, rankId);
+  }
+
+  const change = await storage.createRankChange({
+    userId: user.id,
+    fromRank: user.rank,
+    fromRankId: user.rankId,
+    toRank: rank,
+    toRankId: rankId,
+    source: "sync",
+    accessRevoked: revoked,
+  });
+
+  await recordAudit(null, {
+    action: revoked ? "user.access_revoked" : "user.rank_change",
+    entityType: "user",
+    entityId: user.id,
+    before: { rank: user.rank, rankId: user.rankId },
+    after: { rank, rankId, sessionsEnded },
+  });
+
+  await storage.createNotification({
+    userId: user.id,
+    message: revoked
+      ? `Your portal access has been revoked because your group rank (${rank}) no longer qualifies`
+      : `Your rank has been updated from ${user.rank} to ${rank}`,
+    type: revoked ? "access_revoked" : "rank_changed",
+    requestId: change.id,
+    requestType: "rank",
+  });
+
+  return revoked ? "revoked" : "updated";
+}
+
+export async function syncAllUserRanks(): Promise<RankSyncSummary> {
+  if (syncInProgress) {
+    throw new Error("Rank sync is already running");
+  }
+
+  syncInProgress = true;
+  const summary: RankSyncSummary = { checked: 0, updated: 0, revoked: 0, failed: 0, aborted: false };
+
+  try {
+    const users = await storage.getAllUsers();
+
+    for (const user of users) {
+      // Anonymised users have no Roblox account left to check
+      if (user.anonymisedAt) continue;
+
+      try {
+        const result = await syncUserRank(user);
+        summary.checked++;
+        if (result === "updated") summary.updated++;
+        if (result === "revoked") summary.revoked++;
+      } catch (error) {
+        summary.failed++;
+        // Never revoke anyone because Roblox is down; stop and try again next run
+        if (error instanceof roblox.RobloxUnavailableError) {
+          summary.aborted = true;
+          break;
+        }
+        console.error(`Rank sync failed for user ${user.id}:`, error);
+      }
+    }
+  } finally {
+    syncInProgress = false;
+  }
+
+  log(
+    `rank sync: ${summary.checked} checked, ${summary.updated} updated, ${summary.revoked} revoked, ${summary.failed} failed${summary.aborted ? " (aborted: Roblox unavailable)" : ""}`,
+    "jobs",
+  );
+  return summary;
+}
+
+export function startRankSyncJob() {
+  return scheduleJob("rank sync", RANK_SYNC_INTERVAL_MS, syncAllUserRanks);
+}
@@ -0,0 +1,165 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { isSuspended, type Notification, type Permission, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { portalEvents, type QueueChangedEvent } from "./events";
+import { hasPermission } from "./permissions";
+
+export const REALTIME_PATH = "/api/ws";
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const QUEUE_PERMISSIONS: Record<QueueChangedEvent["queue"], Permission> = {
+  transfer: "transfer.review",
+  loa: "loa.review",
+  loa_adjustment: "loa.review",
+  onboarding: "onboarding.review",
+};
+
+type RealtimeMessage =
+  | { type: "unread_count"; unreadCount: number }
+  | { type: "notification"; notification: Notification; unreadCount: number }
+  | { type: "queue_changed"; queue: QueueChangedEvent["queue"]; requestId: string }
+  | { type: "session_revoked"; reason: string | null };
+
+// Open sockets per user, so every tab of a user gets the same pushes
+const connections = new Map<string, Set<WebSocket>>();
+// The connected users' rows, read at connect time and refreshed on user.changed, so
+// queue pushes can check permissions without a query per socket
+const connectedUsers = new Map<string, User>();
+const alive = new WeakSet<WebSocket>();
+
+function send(userId: string, message: RealtimeMessage) {
+  const sockets = connections.get(userId);
+  if (!sockets) return;
+
+  const payload = JSON.stringify(message);
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+}
+
+async function pushUnreadCount(userId: string) {
+  if (!connections.has(userId)) return;
+  const unreadCount = await storage.getUnreadNotificationCount(userId);
+  send(userId, { type: "unread_count", unreadCount });
+}
+
+// Resolves the express-session user for a WebSocket upgrade request
+function authenticate(sessionMiddleware: RequestHandler, req: IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, () => {
+      resolve((req as Request).session?.userId);
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Session-authenticated push channel on the portal's HTTP server. Clients connect to
+// /api/ws and receive notifications, unread counts and review queue changes as JSON.
+export function attachRealtime(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Other upgrades (e.g. Vite HMR in development) are handled elsewhere
+    if (new URL(req.url || "/", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    try {
+      const userId = await authenticate(sessionMiddleware, req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || isSuspended(user)) {
+        return rejectUpgrade(socket, "401 Unauthorized");
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const sockets = connections.get(user.id) ?? new Set<WebSocket>();
+        sockets.add(ws);
+        connections.set(user.id, sockets);
+        connectedUsers.set(user.id, user);
+        alive.add(ws);
+
+        ws.on("pong", () => alive.add(ws));
+        ws.on("close", () => {
+          sockets.delete(ws);
+          if (sockets.size === 0) {
+            connections.delete(user.id);
+            connectedUsers.delete(user.id);
+          }
+        });
+
+        void pushUnreadCount(user.id).catch((error) => console.error("Realtime unread count error:", error));
+      });
+    } catch (error) {
+      console.error("Realtime upgrade error:", error);
+      rejectUpgrade(socket, "500 Internal Server Error");
+    }
+  });
+
+  // Drop sockets that stopped answering pings (closed laptops, dropped connections)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+
+  portalEvents.on("notification.created", (notification) => {
+    if (!connections.has(notification.userId)) return;
+    storage.getUnreadNotificationCount(notification.userId)
+      .then((unreadCount) => send(notification.userId, { type: "notification", notification, unreadCount }))
+      .catch((error) => console.error("Realtime notification push error:", error));
+  });
+
+  portalEvents.on("notifications.read", ({ userId }) => {
+    pushUnreadCount(userId).catch((error) => console.error("Realtime unread count error:", error));
+  });
+
+  // Signed-out-everywhere users lose their open sockets too
+  portalEvents.on("sessions.revoked", ({ userId, reason }) => {
+    send(userId, { type: "session_revoked", reason: reason ?? null });
+    connections.get(userId)?.forEach((socket) => socket.close(4001, "Session revoked"));
+  });
+
+  // Rank syncs, placements and suspensions change what a connected user may hear about
+  portalEvents.on("user.changed", ({ userId }) => {
+    if (!connections.has(userId)) return;
+    storage.getUser(userId)
+      .then((user) => {
+        if (!connections.has(userId)) return;
+        if (user) {
+          connectedUsers.set(userId, user);
+        } else {
+          connectedUsers.delete(userId);
+        }
+      })
+      .catch((error) => console.error("Realtime user refresh error:", error));
+  });
+
+  // Tell connected reviewers their queue changed
+  portalEvents.on("queue.changed", (event) => {
+    const permission = QUEUE_PERMISSIONS[event.queue];
+
+    connectedUsers.forEach((user, userId) => {
+      if (isSuspended(user)) return;
+      const allowed = event.departments
+        ? event.departments.some((department) => hasPermission(user, permission, department))
+        : hasPermission(user, permission);
+      if (allowed) {
+        send(userId, { type: "queue_changed", queue: event.queue, requestId: event.requestId });
+      }
+    });
+  });
+
+  return wss;
+}
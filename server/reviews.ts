@@ -0,0 +1,238 @@
+import type { Request } from "express";
+import {
+  canTransitionRequest,
+  type User,
+  type TransferRequest,
+  type TransferReviewStage,
+  type LoaRequest,
+  type RequestStatus,
+  type ReviewDecision,
+  type BulkReviewResult,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { portalEvents, emitTransferQueueChanged } from "./events";
+import { hasPermission } from "./permissions";
+import { recordAudit } from "./audit";
+import { validatePlacement, checkHeadcount, placementLabel } from "./org";
+
+// How one review went. The single-item routes map this onto a status code; the bulk
+// routes report it per item.
+export type ReviewOutcome<T> =
+  | { result: "updated"; request: T }
+  | { result: "not_found"; message: string }
+  | { result: "already_reviewed"; message: string }
+  | { result: "forbidden"; message: string }
+  | { result: "unavailable"; message: string };
+
+export const REVIEW_OUTCOME_STATUS_CODES = {
+  updated: 200,
+  not_found: 404,
+  already_reviewed: 409,
+  forbidden: 403,
+  unavailable: 409,
+} as const;
+
+// The stage a pending transfer is waiting on, or null once it has been decided
+export function getTransferReviewStage(request: TransferRequest): TransferReviewStage | null {
+  if (request.status !== "Pending") return null;
+  return request.releaseStatus === "Pending" ? "Release" : "Acceptance";
+}
+
+// Department leadership reviews its own stage; a global transfer.review grant can act
+// on either stage. Nobody reviews their own transfer.
+export function canReviewTransferStage(user: User, request: TransferRequest, stage: TransferReviewStage) {
+  if (user.id === request.userId) return false;
+
+  const department = stage === "Release" ? request.currentDepartment : request.requestedDepartment;
+  return hasPermission(user, "transfer.review", department);
+}
+
+// Adds the reviewer's note to a decision notification: the reason for a rejection, or
+// an optional note on an approval
+export function withReviewNote(message: string, status: RequestStatus, note: string | null) {
+  if (!note) return message;
+  return `${message}. ${status === "Rejected" ? "Reason" : "Note"}: ${note}`;
+}
+
+// Reviews the current stage of a transfer, then audits it, notifies the requester and
+// tells the review queues and Discord
+export async function reviewTransfer(
+  req: Request,
+  reviewer: User,
+  id: string,
+  { status, note }: ReviewDecision,
+): Promise<ReviewOutcome<TransferRequest>> {
+  const existing = await storage.getTransferRequest(id);
+  if (!existing) {
+    return { result: "not_found", message: "Request not found" };
+  }
+
+  const stage = getTransferReviewStage(existing);
+  if (!stage) {
+    return { result: "already_reviewed", message: "Request has already been reviewed" };
+  }
+
+  if (!canReviewTransferStage(reviewer, existing, stage)) {
+    return {
+      result: "forbidden",
+      message: stage === "Release"
+        ? `Forbidden: transfer.review for ${existing.currentDepartment} required`
+        : `Forbidden: transfer.review for ${existing.requestedDepartment} required`,
+    };
+  }
+
+  // Accepting places the requester, so the requested placement must still take them
+  if (stage === "Acceptance" && status === "Approved") {
+    const requester = await storage.getUser(existing.userId);
+    const placementError = validatePlacement(existing.requestedDepartment, existing.requestedSubDepartment)
+      ?? (requester ? await checkHeadcount(requester, existing.requestedDepartment, existing.requestedSubDepartment) : null);
+    if (placementError) {
+      return { result: "unavailable", message: placementError };
+    }
+  }
+
+  const request = await storage.reviewTransferStage(existing.id, stage, status, reviewer.id, note ?? null);
+
+  if (!request) {
+    return { result: "already_reviewed", message: "Request has already been reviewed" };
+  }
+
+  await recordAudit(req, {
+    actor: reviewer,
+    action: "transfer.review",
+    entityType: "transfer",
+    entityId: request.id,
+    before: existing,
+    after: { ...request, stage },
+  });
+
+  // Create notification for user
+  if (request.status === "Pending") {
+    await storage.createNotification({
+      userId: request.userId,
+      message: withReviewNote(
+        `Your transfer request has been released by ${placementLabel(request.currentDepartment, null)} and is awaiting acceptance by ${placementLabel(request.requestedDepartment, null)}`,
+        status,
+        request.releaseNote,
+      ),
+      type: "transfer_released",
+      requestId: request.id,
+      requestType: "transfer",
+    });
+  } else {
+    await storage.createNotification({
+      userId: request.userId,
+      message: withReviewNote(`Your transfer request has been ${status.toLowerCase()}`, status, request.reviewNote),
+      type: `transfer_${status.toLowerCase()}`,
+      requestId: request.id,
+      requestType: "transfer",
+    });
+    portalEvents.emit("request.activity", {
+      requestType: "transfer",
+      action: request.status === "Approved" ? "approved" : "rejected",
+      requestId: request.id,
+      reviewerId: reviewer.id,
+    });
+  }
+
+  emitTransferQueueChanged(request);
+
+  return { result: "updated", request };
+}
+
+// Approves or rejects an LOA, then audits it, notifies the requester and tells the review
+// queues and Discord. Callers refresh the LOA lifecycle after approvals.
+export async function reviewLoa(
+  req: Request,
+  reviewer: User,
+  id: string,
+  { status, note }: ReviewDecision,
+): Promise<ReviewOutcome<LoaRequest>> {
+  const existing = await storage.getLoaRequest(id);
+  if (!existing) {
+    return { result: "not_found", message: "Request not found" };
+  }
+
+  // As with transfers, nobody reviews their own LOA
+  if (existing.userId === reviewer.id) {
+    return { result: "forbidden", message: "Forbidden: you cannot review your own LOA request" };
+  }
+
+  if (!canTransitionRequest(existing.status, status)) {
+    return { result: "already_reviewed", message: `Request is already ${existing.status.toLowerCase()}` };
+  }
+
+  const request = await storage.updateLoaRequest(existing.id, status, reviewer.id, note ?? null);
+
+  if (!request) {
+    return { result: "already_reviewed", message: "Request has already been reviewed" };
+  }
+
+  await recordAudit(req, {
+    actor: reviewer,
+    action: "loa.review",
+    entityType: "loa",
+    entityId: request.id,
+    before: existing,
+    after: request,
+  });
+
+  // Create notification for user
+  await storage.createNotification({
+    userId: request.userId,
+    message: withReviewNote(`Your LOA request has been ${status.toLowerCase()}`, status, request.reviewNote),
+    type: `loa_${status.toLowerCase()}`,
+    requestId: request.id,
+    requestType: "loa",
+  });
+
+  portalEvents.emit("queue.changed", { queue: "loa", requestId: request.id });
+  portalEvents.emit("request.activity", {
+    requestType: "loa",
+    action: request.status === "Approved" ? "approved" : "rejected",
+    requestId: request.id,
+    reviewerId: reviewer.id,
+  });
+
+  return { result: "updated", request };
+}
+
+// Reviews each id in turn. Every review commits on its own, so a failure is reported for
+// that item and the rest carry on.
+export async function reviewEach<T>(
+  ids: string[],
+  review: (id: string) => Promise<ReviewOutcome<T>>,
+): Promise<{ results: BulkReviewResult[]; updated: T[] }> {
+  const results: BulkReviewResult[] = [];
+  const updated: T[] = [];
+
+  for (const id of Array.from(new Set(ids))) {
+    try {
+      const outcome = await review(id);
+      if (outcome.result === "updated") {
+        updated.push(outcome.request);
+        results.push({ id, result: "updated" });
+      } else {
+        results.push({ id, result: outcome.result, message: outcome.message });
+      }
+    } catch (error) {
+      console.error(`Bulk review of ${id} failed:`, error);
+      results.push({ id, result: "failed", message: "Failed to review request" });
+    }
+  }
+
+  return { results, updated };
+}
+
+export function countBulkResults(results: BulkReviewResult[]) {
+  const counts: Record<BulkReviewResult["result"], number> = {
+    updated: 0,
+    not_found: 0,
+    already_reviewed: 0,
+    forbidden: 0,
+    unavailable: 0,
+    failed: 0,
+  };
+  for (const { result } of results) counts[result]++;
+  return counts;
+}
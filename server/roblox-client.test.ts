@@ -0,0 +1,106 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { HttpRobloxClient, RobloxUnavailableError } from "./roblox-client";
+
+// A local stand-in for the Roblox APIs. Each request takes the next scripted response;
+// once the script runs out, the last response repeats.
+interface ScriptedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+describe("HttpRobloxClient", () => {
+  let server: Server;
+  let client: HttpRobloxClient;
+  let script: ScriptedResponse[];
+  let requests: string[];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      const next = script.length > 1 ? script.shift()! : script[0];
+      res.writeHead(next.status, { "Content-Type": "application/json", ...next.headers });
+      res.end(JSON.stringify(next.body ?? {}));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    client = new HttpRobloxClient({ users: `${base}/users`, groups: `${base}/groups`, thumbnails: `${base}/thumbnails` });
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    script = [];
+    requests = [];
+  });
+
+  it("looks a user up by username", async () => {
+    script = [{ status: 200, body: { data: [{ id: 42, name: "Someone", displayName: "Some One" }] } }];
+
+    assert.deepEqual(await client.getUserByUsername("someone"), { id: 42, username: "Someone", displayName: "Some One" });
+    assert.deepEqual(requests, ["POST /users/usernames/users"]);
+  });
+
+  it("waits for the server's Retry-After rather than its own backoff", async () => {
+    script = [
+      { status: 429, headers: { "Retry-After": "0" } },
+      { status: 200, body: { data: [{ id: 42, name: "Someone", displayName: "Some One" }] } },
+    ];
+
+    const startedAt = Date.now();
+    const user = await client.getUserByUsername("someone");
+
+    assert.equal(user?.id, 42);
+    assert.equal(requests.length, 2);
+    // The first backoff would be 500ms
+    assert.ok(Date.now() - startedAt < 400);
+  });
+
+  it("reads group roles and rejects responses in an unexpected shape", async () => {
+    script = [{
+      status: 200,
+      body: { data: [{ group: { id: 10260222, name: "Aulani" }, role: { id: 7, rank: 200, name: "Supervisor" } }] },
+    }];
+    assert.deepEqual(await client.getUserGroupRoles(42), [
+      { groupId: 10260222, groupName: "Aulani", rank: 200, roleName: "Supervisor" },
+    ]);
+
+    script = [{ status: 200, body: { data: [{ group: { id: 10260222 } }] } }];
+    await assert.rejects(client.getUserGroupRoles(42), RobloxUnavailableError);
+  });
+
+  it("gives up with RobloxUnavailableError when Roblox keeps failing", async () => {
+    script = [{ status: 503 }];
+
+    await assert.rejects(client.getUserGroupRoles(42), RobloxUnavailableError);
+    assert.equal(requests.length, 3);
+  });
+
+  it("does not retry errors that won't go away", async () => {
+    script = [{ status: 404 }];
+
+    assert.equal(await client.getUserAboutMe(42), "");
+    assert.equal(requests.length, 1);
+  });
+
+  it("leaves out thumbnails that are still rendering", async () => {
+    script = [{
+      status: 200,
+      body: {
+        data: [
+          { targetId: 1, state: "Completed", imageUrl: "https://example.com/1.png" },
+          { targetId: 2, state: "Pending", imageUrl: null },
+        ],
+      },
+    }];
+
+    const headshots = await client.getAvatarHeadshots([1, 2]);
+    assert.deepEqual(Array.from(headshots.entries()), [[1, "https://example.com/1.png"]]);
+  });
+});
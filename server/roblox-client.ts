@@ -0,0 +1,306 @@
+import axios, { isAxiosError } from "axios";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+export interface RobloxApiUrls {
+  users: string;
+  groups: string;
+  thumbnails: string;
+}
+
+const ROBLOX_API_URLS: RobloxApiUrls = {
+  users: "https://users.roblox.com/v1",
+  groups: "https://groups.roblox.com/v1",
+  thumbnails: "https://thumbnails.roblox.com/v1",
+};
+// The thumbnails API takes at most this many user ids per request
+const THUMBNAIL_BATCH_SIZE = 100;
+
+// Attempts per Roblox request, and the backoff before the first retry (doubled each time)
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+// Never wait longer than this for a Retry-After, so a request can't hang a route
+const MAX_RETRY_AFTER_MS = 10_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const http = axios.create({ timeout: REQUEST_TIMEOUT_MS });
+
+// Roblox could not be reached or kept failing (rate limits, outages). Routes answer
+// with 503 rather than pretending the user doesn't exist or isn't eligible.
+export class RobloxUnavailableError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "RobloxUnavailableError";
+  }
+}
+
+export interface RobloxUserInfo {
+  id: number;
+  username: string;
+  displayName: string;
+}
+
+export interface RobloxGroupRole {
+  groupId: number;
+  groupName: string;
+  rank: number;
+  roleName: string;
+}
+
+// Everything the portal needs from Roblox. Implementations return null / empty
+// results when Roblox has no such user, and throw when the request itself fails.
+export interface RobloxClient {
+  getUserByUsername(username: string): Promise<RobloxUserInfo | null>;
+  getUserAboutMe(userId: number): Promise<string>;
+  getUserGroupRoles(userId: number): Promise<RobloxGroupRole[]>;
+  // Headshot image URLs by user id; users without a ready thumbnail are left out
+  getAvatarHeadshots(userIds: number[]): Promise<Map<number, string>>;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: unknown): number | null {
+  if (typeof header !== "string" || header.trim() === "") return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!isAxiosError(error)) return false;
+  // No response means a network error or timeout
+  if (!error.response) return true;
+  return error.response.status === 429 || error.response.status >= 500;
+}
+
+// Runs a Roblox request, retrying rate limits, server errors and network failures with
+// exponential backoff (or the server's Retry-After). Other errors are rethrown as-is.
+async function withRetries<T>(description: string, request: () => Promise<T>): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isRetryable(error)) {
+        throw error;
+      }
+      lastError = error;
+      if (attempt === MAX_ATTEMPTS) break;
+
+      const retryAfter = isAxiosError(error) ? parseRetryAfter(error.response?.headers?.["retry-after"]) : null;
+      const delay = Math.min(retryAfter ?? BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_RETRY_AFTER_MS);
+      console.warn(`Roblox ${description} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+
+  throw new RobloxUnavailableError(`Roblox ${description} failed after ${MAX_ATTEMPTS} attempts`, lastError);
+}
+
+// The parts of groups.roblox.com's /users/{userId}/groups/roles response the portal reads
+const groupRolesResponseSchema = z.object({
+  data: z.array(z.object({
+    group: z.object({ id: z.number(), name: z.string() }),
+    role: z.object({ rank: z.number(), name: z.string() }),
+  })).default([]),
+});
+
+// Live client for users.roblox.com and groups.roblox.com. Tests point it at a local
+// stand-in instead.
+export class HttpRobloxClient implements RobloxClient {
+  constructor(private readonly urls: RobloxApiUrls = ROBLOX_API_URLS) {}
+
+  async getUserByUsername(username: string): Promise<RobloxUserInfo | null> {
+    const response = await withRetries("username lookup", () =>
+      http.post(`${this.urls.users}/usernames/users`, {
+        usernames: [username],
+        excludeBannedUsers: true,
+      })
+    );
+
+    const user = response.data?.data?.[0];
+    if (!user) {
+      return null;
+    }
+
+    return {
+      id: user.id,
+      username: user.name,
+      displayName: user.displayName,
+    };
+  }
+
+  async getUserAboutMe(userId: number): Promise<string> {
+    try {
+      const response = await withRetries("user lookup", () => http.get(`${this.urls.users}/users/${userId}`));
+      return response.data?.description || "";
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return "";
+      }
+      throw error;
+    }
+  }
+
+  async getUserGroupRoles(userId: number): Promise<RobloxGroupRole[]> {
+    const response = await withRetries("group roles lookup", () =>
+      http.get(`${this.urls.groups}/users/${userId}/groups/roles`)
+    );
+    const parsed = groupRolesResponseSchema.safeParse(response.data);
+    if (!parsed.success) {
+      throw new RobloxUnavailableError("Roblox group roles lookup returned an unexpected response", parsed.error);
+    }
+
+    return parsed.data.data.map(({ group, role }) => ({
+      groupId: group.id,
+      groupName: group.name,
+      rank: role.rank,
+      roleName: role.name,
+    }));
+  }
+
+  async getAvatarHeadshots(userIds: number[]): Promise<Map<number, string>> {
+    const headshots = new Map<number, string>();
+
+    for (let i = 0; i < userIds.length; i += THUMBNAIL_BATCH_SIZE) {
+      const batch = userIds.slice(i, i + THUMBNAIL_BATCH_SIZE);
+      const response = await withRetries("avatar thumbnail lookup", () =>
+        http.get(`${this.urls.thumbnails}/users/avatar-headshot`, {
+          params: { userIds: batch.join(","), size: "150x150", format: "Png", isCircular: false },
+        })
+      );
+
+      for (const thumbnail of response.data?.data || []) {
+        // "Pending" thumbnails are still being rendered and have no URL yet
+        if (thumbnail.state === "Completed" && thumbnail.imageUrl) {
+          headshots.set(thumbnail.targetId, thumbnail.imageUrl);
+        }
+      }
+    }
+
+    return headshots;
+  }
+}
+
+const fakeGroupRoleSchema = z.object({
+  groupId: z.number().int().positive(),
+  groupName: z.string().default("Fixture Group"),
+  rank: z.number().int().min(0).max(255),
+  roleName: z.string(),
+});
+
+export const fakeRobloxUserSchema = z.object({
+  id: z.number().int().positive(),
+  username: z.string().min(1),
+  displayName: z.string().optional(),
+  aboutMe: z.string().default(""),
+  avatarUrl: z.string().url().optional(),
+  groups: z.array(fakeGroupRoleSchema).default([]),
+});
+
+const robloxFixturesSchema = z.object({
+  users: z.array(fakeRobloxUserSchema).default([]),
+});
+
+export type FakeRobloxUser = z.infer<typeof fakeRobloxUserSchema>;
+export type RobloxFixtures = z.infer<typeof robloxFixturesSchema>;
+
+// In-memory stand-in driven by fixtures, for running and testing the portal offline.
+// Users, About Me text and group roles can be scripted at runtime.
+export class FakeRobloxClient implements RobloxClient {
+  private users = new Map<number, FakeRobloxUser>();
+
+  constructor(fixtures: RobloxFixtures = { users: [] }) {
+    for (const user of fixtures.users) {
+      this.setUser(user);
+    }
+  }
+
+  static fromFile(filePath: string): FakeRobloxClient {
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return new FakeRobloxClient(robloxFixturesSchema.parse(raw));
+  }
+
+  setUser(user: z.input<typeof fakeRobloxUserSchema>): FakeRobloxUser {
+    const parsed = fakeRobloxUserSchema.parse(user);
+    this.users.set(parsed.id, parsed);
+    return parsed;
+  }
+
+  setAboutMe(userId: number, aboutMe: string) {
+    this.requireUser(userId).aboutMe = aboutMe;
+  }
+
+  setGroupRole(userId: number, role: z.input<typeof fakeGroupRoleSchema>) {
+    const user = this.requireUser(userId);
+    const parsed = fakeGroupRoleSchema.parse(role);
+    user.groups = [...user.groups.filter((g) => g.groupId !== parsed.groupId), parsed];
+  }
+
+  removeFromGroup(userId: number, groupId: number) {
+    const user = this.requireUser(userId);
+    user.groups = user.groups.filter((g) => g.groupId !== groupId);
+  }
+
+  findUserByUsername(username: string): FakeRobloxUser | undefined {
+    const lower = username.toLowerCase();
+    return Array.from(this.users.values()).find((u) => u.username.toLowerCase() === lower);
+  }
+
+  async getUserByUsername(username: string): Promise<RobloxUserInfo | null> {
+    const user = this.findUserByUsername(username);
+    if (!user) {
+      return null;
+    }
+
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.displayName || user.username,
+    };
+  }
+
+  async getUserAboutMe(userId: number): Promise<string> {
+    return this.users.get(userId)?.aboutMe || "";
+  }
+
+  async getUserGroupRoles(userId: number): Promise<RobloxGroupRole[]> {
+    return this.users.get(userId)?.groups || [];
+  }
+
+  async getAvatarHeadshots(userIds: number[]): Promise<Map<number, string>> {
+    const headshots = new Map<number, string>();
+    for (const userId of userIds) {
+      const avatarUrl = this.users.get(userId)?.avatarUrl;
+      if (avatarUrl) headshots.set(userId, avatarUrl);
+    }
+    return headshots;
+  }
+
+  private requireUser(userId: number): FakeRobloxUser {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`No fake Roblox user with id ${userId}`);
+    }
+    return user;
+  }
+}
+
+const DEFAULT_FIXTURES_PATH = path.resolve(import.meta.dirname, "fixtures", "roblox.json");
+
+// ROBLOX_CLIENT=fake selects the fixture-driven client (fixtures from ROBLOX_FIXTURES,
+// or server/fixtures/roblox.json); anything else talks to Roblox.
+export function createRobloxClient(): RobloxClient {
+  if (process.env.ROBLOX_CLIENT === "fake") {
+    return FakeRobloxClient.fromFile(process.env.ROBLOX_FIXTURES || DEFAULT_FIXTURES_PATH);
+  }
+  return new HttpRobloxClient();
+}
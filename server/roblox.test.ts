@@ -0,0 +1,56 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { FakeRobloxClient, RobloxUnavailableError, type RobloxClient } from "./roblox-client";
+import * as roblox from "./roblox";
+
+// The lookups /api/auth/generate-code and /api/auth/verify make, run against the
+// fixture-driven client with the default Roblox settings
+describe("Roblox verification", () => {
+  let fake: FakeRobloxClient;
+
+  beforeEach(() => {
+    fake = FakeRobloxClient.fromFile(path.resolve(import.meta.dirname, "fixtures", "roblox.json"));
+    roblox.setRobloxClient(fake);
+  });
+
+  it("finds users case-insensitively and returns null for unknown ones", async () => {
+    assert.equal((await roblox.getUserByUsername("aulanisupervisor"))?.id, 1000004);
+    assert.equal(await roblox.getUserByUsername("NobodyByThatName"), null);
+  });
+
+  it("accepts a code only once it is in the About Me text", async () => {
+    assert.equal(await roblox.verifyUserCode("AulaniSupervisor", "ABCD1234"), false);
+
+    fake.setAboutMe(1000004, "Hello! ABCD1234");
+    assert.equal(await roblox.verifyUserCode("AulaniSupervisor", "ABCD1234"), true);
+  });
+
+  it("lets in members at or above the minimum portal rank", async () => {
+    assert.deepEqual(await roblox.verifyUserRank(1000004), { valid: true, rank: "Supervisor", rankId: 200 });
+    assert.deepEqual(await roblox.verifyUserRank(1000005), { valid: false, rank: "Guest", rankId: 10 });
+  });
+
+  it("turns members away once they leave the group", async () => {
+    fake.removeFromGroup(1000004, 10260222);
+    // Group roles are cached for a minute, as they are between generate-code and verify
+    roblox.clearRobloxCache();
+
+    assert.deepEqual(await roblox.verifyUserRank(1000004), { valid: false });
+  });
+
+  it("reports Roblox failures as RobloxUnavailableError", async () => {
+    const failing: RobloxClient = {
+      getUserByUsername: () => Promise.reject(new Error("socket hang up")),
+      getUserAboutMe: () => Promise.reject(new Error("socket hang up")),
+      getUserGroupRoles: () => Promise.reject(new Error("socket hang up")),
+      getAvatarHeadshots: () => Promise.reject(new Error("socket hang up")),
+    };
+    roblox.setRobloxClient(failing);
+
+    await assert.rejects(roblox.getUserByUsername("AulaniSupervisor"), RobloxUnavailableError);
+    await assert.rejects(roblox.verifyUserRank(1000004), RobloxUnavailableError);
+    // Avatars are decoration and never fail the caller
+    assert.deepEqual(Array.from((await roblox.getAvatarUrls([1000004])).entries()), [[1000004, null]]);
+  });
+});
@@ -1,18 +1,49 @@
-import axios from "axios";
+import { getRobloxSettings } from "./config";
+import {
+  createRobloxClient,
+  RobloxUnavailableError,
+  type RobloxClient,
+  type RobloxUserInfo,
+  type RobloxGroupRole,
+} from "./roblox-client";
 
-const ROBLOX_API_BASE = "https://users.roblox.com/v1";
-const ROBLOX_GROUPS_API = "https://groups.roblox.com/v1";
-const GROUP_ID = 10260222;
+export { RobloxUnavailableError } from "./roblox-client";
+export type { RobloxUserInfo } from "./roblox-client";
 
-// Minimum rank ID for Supervisor+ (rank 200 and above in Aulani Springs)
-const SUPERVISOR_MIN_RANK = 200;
+// User and group-role lookups are cached briefly so one login doesn't hit Roblox
+// repeatedly. About Me text is never cached: verification must see the latest edit.
+const LOOKUP_CACHE_TTL_MS = 60 * 1000;
+// Avatar thumbnail URLs change only when a user edits their avatar
+const AVATAR_CACHE_TTL_MS = 60 * 60 * 1000;
 
-export interface RobloxUserInfo {
-  id: number;
-  username: string;
-  displayName: string;
+class TtlCache<K, V> {
+  private entries = new Map<K, { value: V; expiresAt: number }>();
+
+  constructor(private ttlMs: number) {}
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: K, value: V) {
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  clear() {
+    this.entries.clear();
+  }
 }
 
+const usernameCache = new TtlCache<string, RobloxUserInfo>(LOOKUP_CACHE_TTL_MS);
+const groupRolesCache = new TtlCache<number, RobloxGroupRole[]>(LOOKUP_CACHE_TTL_MS);
+const avatarCache = new TtlCache<number, string>(AVATAR_CACHE_TTL_MS);
+
 export interface GroupMembershipInfo {
   groupId: number;
   rank: {
@@ -21,72 +52,129 @@ export interface GroupMembershipInfo {
   };
 }
 
+let client: RobloxClient = createRobloxClient();
+
+export function getRobloxClient(): RobloxClient {
+  return client;
+}
+
+// Swap the Roblox client, e.g. for a FakeRobloxClient in tests
+export function setRobloxClient(next: RobloxClient) {
+  client = next;
+  clearRobloxCache();
+}
+
+export function clearRobloxCache() {
+  usernameCache.clear();
+  groupRolesCache.clear();
+  avatarCache.clear();
+}
+
+// Wraps unexpected client failures so callers only have to handle RobloxUnavailableError
+function toUnavailable(description: string, error: unknown): RobloxUnavailableError {
+  if (error instanceof RobloxUnavailableError) return error;
+  return new RobloxUnavailableError(`Roblox ${description} failed`, error);
+}
+
+// Returns null when Roblox has no such user; throws RobloxUnavailableError if Roblox can't be reached
 export async function getUserByUsername(username: string): Promise<RobloxUserInfo | null> {
-  try {
-    const response = await axios.post(`${ROBLOX_API_BASE}/usernames/users`, {
-      usernames: [username],
-      excludeBannedUsers: true,
-    });
+  const key = username.toLowerCase();
+  const cached = usernameCache.get(key);
+  if (cached) return cached;
 
-    if (response.data?.data && response.data.data.length > 0) {
-      const user = response.data.data[0];
-      return {
-        id: user.id,
-        username: user.name,
-        displayName: user.displayName,
-      };
-    }
-    return null;
+  try {
+    const user = await client.getUserByUsername(username);
+    if (user) usernameCache.set(key, user);
+    return user;
   } catch (error) {
     console.error("Error fetching Roblox user:", error);
-    return null;
+    throw toUnavailable("username lookup", error);
   }
 }
 
 export async function getUserAboutMe(userId: number): Promise<string> {
   try {
-    const response = await axios.get(`${ROBLOX_API_BASE}/users/${userId}`);
-    return response.data?.description || "";
+    return await client.getUserAboutMe(userId);
   } catch (error) {
     console.error("Error fetching user About Me:", error);
-    return "";
+    throw toUnavailable("About Me lookup", error);
   }
 }
 
-export async function getGroupMembershipForUser(userId: number): Promise<GroupMembershipInfo | null> {
+async function getUserGroupRoles(userId: number): Promise<RobloxGroupRole[]> {
+  const cached = groupRolesCache.get(userId);
+  if (cached) return cached;
+
   try {
-    const response = await axios.get(`${ROBLOX_GROUPS_API}/users/${userId}/groups/roles`);
-    
-    console.log(`Fetching groups for user ${userId}...`);
-    
-    if (response.data?.data) {
-      console.log(`User ${userId} is in ${response.data.data.length} groups`);
-      
-      // Log all groups the user is in for debugging
-      response.data.data.forEach((group: any) => {
-        console.log(`- Group ${group.group.id}: ${group.group.name}, Rank: ${group.role.rank} (${group.role.name})`);
-      });
-      
-      const membership = response.data.data.find((group: any) => group.group.id === GROUP_ID);
-      
-      if (membership) {
-        console.log(`Found membership in group ${GROUP_ID}`);
-        return {
-          groupId: membership.group.id,
-          rank: {
-            id: membership.role.rank,
-            name: membership.role.name,
-          },
-        };
-      } else {
-        console.log(`User ${userId} is NOT in group ${GROUP_ID}`);
-      }
-    }
-    return null;
+    const groups = await client.getUserGroupRoles(userId);
+    groupRolesCache.set(userId, groups);
+    return groups;
   } catch (error) {
     console.error("Error fetching group membership:", error);
-    return null;
+    throw toUnavailable("group roles lookup", error);
+  }
+}
+
+// Headshot URLs for the given Roblox user ids, fetched in one batch for whatever isn't
+// cached. Avatars are decoration: if Roblox can't be reached the missing ones are null
+// rather than failing the caller.
+export async function getAvatarUrls(userIds: number[]): Promise<Map<number, string | null>> {
+  const avatars = new Map<number, string | null>();
+  const missing: number[] = [];
+
+  for (const userId of Array.from(new Set(userIds))) {
+    const cached = avatarCache.get(userId);
+    if (cached) {
+      avatars.set(userId, cached);
+    } else {
+      avatars.set(userId, null);
+      missing.push(userId);
+    }
+  }
+
+  if (missing.length > 0) {
+    try {
+      const fetched = await client.getAvatarHeadshots(missing);
+      fetched.forEach((url, userId) => {
+        avatarCache.set(userId, url);
+        avatars.set(userId, url);
+      });
+    } catch (error) {
+      console.error("Error fetching avatar thumbnails:", error);
+    }
+  }
+
+  return avatars;
+}
+
+export async function getGroupMembershipForUser(userId: number): Promise<GroupMembershipInfo | null> {
+  const { groupId } = getRobloxSettings();
+
+  console.log(`Fetching groups for user ${userId}...`);
+
+  const groups = await getUserGroupRoles(userId);
+  console.log(`User ${userId} is in ${groups.length} groups`);
+
+  // Log all groups the user is in for debugging
+  groups.forEach((group) => {
+    console.log(`- Group ${group.groupId}: ${group.groupName}, Rank: ${group.rank} (${group.roleName})`);
+  });
+
+  const membership = groups.find((group) => group.groupId === groupId);
+
+  if (membership) {
+    console.log(`Found membership in group ${groupId}`);
+    return {
+      groupId: membership.groupId,
+      rank: {
+        id: membership.rank,
+        name: membership.roleName,
+      },
+    };
   }
+
+  console.log(`User ${userId} is NOT in group ${groupId}`);
+  return null;
 }
 
 export async function verifyUserCode(username: string, code: string): Promise<boolean> {
@@ -99,17 +187,20 @@ export async function verifyUserCode(username: string, code: string): Promise<bo
     const aboutMe = await getUserAboutMe(user.id);
     return aboutMe.includes(code);
   } catch (error) {
+    if (error instanceof RobloxUnavailableError) throw error;
     console.error("Error verifying user code:", error);
     return false;
   }
 }
 
 export async function verifyUserRank(userId: number): Promise<{ valid: boolean; rank?: string; rankId?: number }> {
+  const { groupId, minPortalRankId } = getRobloxSettings();
+
   try {
     const membership = await getGroupMembershipForUser(userId);
     
     if (!membership) {
-      console.log(`User ${userId} is not in group ${GROUP_ID}`);
+      console.log(`User ${userId} is not in group ${groupId}`);
       return { valid: false };
     }
 
@@ -120,41 +211,34 @@ export async function verifyUserRank(userId: number): Promise<{ valid: boolean;
     });
 
     // Verify the group ID matches
-    if (membership.groupId !== GROUP_ID) {
+    if (membership.groupId !== groupId) {
       console.log(`User ${userId} is in different group: ${membership.groupId}`);
       return { valid: false };
     }
 
-    // Check if user has Supervisor+ rank (rank ID >= 5)
-    const isSupervisorPlus = membership.rank.id >= SUPERVISOR_MIN_RANK;
+    // Check if user meets the minimum portal rank
+    const meetsMinimumRank = membership.rank.id >= minPortalRankId;
     
-    if (!isSupervisorPlus) {
-      console.log(`User ${userId} rank ${membership.rank.id} is below minimum ${SUPERVISOR_MIN_RANK}`);
+    if (!meetsMinimumRank) {
+      console.log(`User ${userId} rank ${membership.rank.id} is below minimum ${minPortalRankId}`);
     }
     
     return {
-      valid: isSupervisorPlus,
+      valid: meetsMinimumRank,
       rank: membership.rank.name,
       rankId: membership.rank.id,
     };
   } catch (error) {
+    if (error instanceof RobloxUnavailableError) throw error;
     console.error("Error verifying user rank:", error);
     return { valid: false };
   }
 }
 
-// Map rank IDs to standardized rank names based on Aulani Springs structure
+// Map rank IDs to standardized rank names using the configured rank title table
 export function mapRankIdToName(rankId: number): string {
-  if (rankId >= 255) return "Proprietor";
-  if (rankId >= 254) return "Executive Board";
-  if (rankId >= 253) return "Board of Directors";
-  if (rankId >= 252) return "Chief Staff Officer";
-  if (rankId >= 240) return "Marketing Department";
-  if (rankId >= 235) return "Chief Administrative Officer";
-  if (rankId >= 225) return "Public Relations Officer";
-  if (rankId >= 222) return "Senior Management";
-  if (rankId >= 220) return "General Manager";
-  if (rankId >= 205) return "Assistant Manager";
-  if (rankId >= 200) return "Supervisor";
-  return "Staff";
+  const match = getRobloxSettings().rankTitles
+    .filter((rank) => rankId >= rank.minRankId)
+    .sort((a, b) => b.minRankId - a.minRankId)[0];
+  return match ? match.title : "Staff";
 }
@@ -0,0 +1,126 @@
+import { describe, it, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import session from "express-session";
+import type { User, VerificationCode } from "@shared/schema";
+import { storage } from "./storage";
+
+// Signing in end to end: the app runs with ROBLOX_CLIENT=fake and an in-memory session store,
+// the Roblox user and their About Me are scripted through the dev routes, and storage keeps
+// verification codes and users in memory (the queries themselves need Postgres).
+describe("Roblox sign-in routes", () => {
+  let server: Server;
+  let base: string;
+  let codes: VerificationCode[];
+  let users: User[];
+
+  before(async () => {
+    process.env.ROBLOX_CLIENT = "fake";
+    const { registerRoutes } = await import("./routes");
+
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app, new session.MemoryStore());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    codes = [];
+    users = [];
+    mock.restoreAll();
+
+    mock.method(storage, "createAuditEvent", async () => ({}));
+    mock.method(storage, "createVerificationCode", async (data: Pick<VerificationCode, "username" | "code" | "expiresAt">) => {
+      const code = { id: `code-${codes.length + 1}`, createdAt: new Date(), used: false, ...data };
+      codes.push(code);
+      return code;
+    });
+    mock.method(storage, "getVerificationCodeByUsername", async (username: string) =>
+      codes.filter((code) => code.username === username && !code.used).at(-1)
+    );
+    mock.method(storage, "markCodeAsUsed", async (value: string) => {
+      codes.filter((code) => code.code === value).forEach((code) => { code.used = true; });
+    });
+    mock.method(storage, "getUserByRobloxId", async (robloxUserId: string) =>
+      users.find((user) => user.robloxUserId === robloxUserId)
+    );
+    mock.method(storage, "getUser", async (id: string) => users.find((user) => user.id === id));
+    mock.method(storage, "createUser", async (data: Pick<User, "robloxUsername" | "robloxUserId" | "rank" | "rankId">) => {
+      const user: User = {
+        id: `user-${users.length + 1}`,
+        department: null,
+        subDepartment: null,
+        onboardingStatus: "Pending",
+        verifiedAt: new Date(),
+        lastLogin: new Date(),
+        onLeave: false,
+        onLeaveUntil: null,
+        suspendedAt: null,
+        suspendedUntil: null,
+        suspensionReason: null,
+        suspendedBy: null,
+        anonymisedAt: null,
+        ...data,
+      };
+      users.push(user);
+      return user;
+    });
+  });
+
+  async function call(method: string, path: string, body?: unknown, cookie?: string) {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json(), cookie: response.headers.get("set-cookie")?.split(";")[0] };
+  }
+
+  it("signs a new member in once the code is in their About Me", async () => {
+    const scripted = await call("PUT", "/api/dev/roblox/users", {
+      id: 2000001,
+      username: "RouteTester",
+      groups: [{ groupId: 10260222, rank: 200, roleName: "Supervisor" }],
+    });
+    assert.equal(scripted.status, 200);
+
+    const generated = await call("POST", "/api/auth/generate-code", { username: "RouteTester" });
+    assert.equal(generated.status, 200);
+    assert.match(generated.body.code, /^[0-9A-F]{8}$/);
+
+    // Not in the About Me yet
+    const early = await call("POST", "/api/auth/verify", { username: "RouteTester" });
+    assert.equal(early.status, 400);
+    assert.equal(users.length, 0);
+
+    await call("PUT", "/api/dev/roblox/users/RouteTester/about-me", { aboutMe: `Verifying: ${generated.body.code}` });
+    const verified = await call("POST", "/api/auth/verify", { username: "RouteTester" });
+    assert.equal(verified.status, 200);
+    assert.equal(verified.body.user.robloxUserId, "2000001");
+    assert.equal(verified.body.user.rankId, 200);
+    assert.ok(codes[0].used);
+
+    const me = await call("GET", "/api/auth/me", undefined, verified.cookie);
+    assert.equal(me.status, 200);
+    assert.equal(me.body.id, verified.body.user.id);
+  });
+
+  it("turns away members below the portal rank before issuing a code", async () => {
+    await call("PUT", "/api/dev/roblox/users", {
+      id: 2000002,
+      username: "RouteGuest",
+      groups: [{ groupId: 10260222, rank: 10, roleName: "Guest" }],
+    });
+
+    const generated = await call("POST", "/api/auth/generate-code", { username: "RouteGuest" });
+    assert.equal(generated.status, 403);
+    assert.equal(codes.length, 0);
+  });
+});
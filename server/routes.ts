@@ -1,6 +1,6 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, isForeignKeyViolation } from "./storage";
 import session from "express-session";
 import ConnectPgSimple from "connect-pg-simple";
 import { pool } from "./db";
@@ -8,14 +8,97 @@ import { randomBytes } from "crypto";
 import { z } from "zod";
 import {
   insertTransferRequestSchema,
+  submitTransferRequestSchema,
   insertLoaRequestSchema,
-  DEPARTMENTS,
-  SUB_DEPARTMENTS,
+  updateTransferRequestSchema,
+  updateLoaRequestSchema,
+  auditQuerySchema,
+  requestQuerySchema,
+  requestExportQuerySchema,
+  rosterExportQuerySchema,
+  staffDirectoryQuerySchema,
+  orgChartQuerySchema,
+  reviewDecisionSchema,
+  bulkReviewSchema,
+  insertRequestCommentSchema,
+  coverageQuerySchema,
+  loaExtensionRequestSchema,
+  loaEarlyReturnSchema,
+  insertDiscordWebhookSchema,
+  updateDiscordWebhookSchema,
+  userAssignmentSchema,
+  userSuspensionSchema,
+  canTransitionRequest,
+  isSuspended,
+  checkLoaPolicy,
+  checkTransferPolicy,
+  TRANSFER_ALREADY_OPEN_VIOLATION,
+  type LoaPolicyViolation,
+  type TransferPolicyViolation,
+  insertDepartmentSchema,
+  updateDepartmentSchema,
+  insertSubDepartmentSchema,
+  updateSubDepartmentSchema,
+  type User,
+  type TransferRequest,
+  type LoaRequest,
+  type OnboardingClaim,
 } from "@shared/schema";
 import * as roblox from "./roblox";
+import { FakeRobloxClient, fakeRobloxUserSchema } from "./roblox-client";
+import { getRobloxSettings, getSetting, loadAllSettings, loaPolicySettings, transferPolicySettings, coverageSettings } from "./config";
+import { buildCoverageReport, MAX_COVERAGE_DAYS } from "./coverage";
+import { renderLoaCalendar } from "./calendar";
+import { refreshLoaLifecycle } from "./loa-lifecycle";
+import { attachRealtime } from "./realtime";
+import { portalEvents, emitTransferQueueChanged } from "./events";
+import { syncAllUserRanks, isRankSyncRunning } from "./rank-sync";
+import { recordAudit } from "./audit";
+import {
+  reviewTransfer,
+  reviewLoa,
+  reviewEach,
+  countBulkResults,
+  getTransferReviewStage,
+  canReviewTransferStage,
+  withReviewNote,
+  REVIEW_OUTCOME_STATUS_CODES,
+} from "./reviews";
+import { withTransferProfiles, withLoaProfiles, withStaffProfiles, withOnboardingProfiles } from "./profiles";
+import { buildOrgChart } from "./directory";
+import {
+  loadOrgStructure,
+  getOrgTree,
+  getDepartments,
+  getDepartment,
+  getSubDepartment,
+  getSubDepartmentsOf,
+  placementLabel,
+  validatePlacement,
+  checkHeadcount,
+} from "./org";
+import {
+  streamExport,
+  selectColumns,
+  ExportColumnError,
+  TRANSFER_EXPORT_COLUMNS,
+  LOA_EXPORT_COLUMNS,
+  ROSTER_EXPORT_COLUMNS,
+} from "./exports";
+import { validateWebhookUrl, sendTestMessage, DiscordDeliveryError } from "./discord";
+import {
+  requirePermission,
+  hasPermission,
+  getPermissionReach,
+  getEffectivePermissions,
+  suspensionResponse,
+  canManageUser,
+} from "./permissions";
 
 const PgSession = ConnectPgSimple(session);
 
+const ROBLOX_UNAVAILABLE_MESSAGE = "Roblox is not responding right now. Please try again in a few minutes.";
+
 // Session user interface
 declare module "express-session" {
   interface SessionData {
@@ -23,30 +106,215 @@ declare module "express-session" {
   }
 }
 
-// Middleware to check authentication
-function requireAuth(req: Request, res: Response, next: NextFunction) {
-  if (!req.session.userId) {
-    return res.status(401).json({ message: "Unauthorized" });
+// Middleware to check authentication. Suspended users are signed out, and users still
+// onboarding only get through routes that allow them.
+function authenticate(allowOnboarding: boolean) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (user && isSuspended(user)) {
+        req.session.destroy(() => {});
+        return res.status(403).json(suspensionResponse(user));
+      }
+      if (user && user.onboardingStatus !== "Complete" && !allowOnboarding) {
+        return res.status(403).json({
+          message: "Your department has not been confirmed yet",
+          onboardingStatus: user.onboardingStatus,
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+const requireAuth = authenticate(false);
+// For what a user still onboarding may use: their account, notifications, the staff
+// directory and the onboarding flow itself
+const requireSession = authenticate(true);
+
+// Tells the leadership of the claimed department about a new onboarding claim
+async function notifyOnboardingReviewers(claim: OnboardingClaim, claimant: User) {
+  const reviewers = (await storage.getAllUsers()).filter((user) =>
+    user.id !== claimant.id && hasPermission(user, "onboarding.review", claim.department)
+  );
+
+  for (const reviewer of reviewers) {
+    await storage.createNotification({
+      userId: reviewer.id,
+      message: `${claimant.robloxUsername} has joined and says they are in ${placementLabel(claim.department, claim.subDepartment)}`,
+      type: "onboarding_claim",
+      requestId: claim.id,
+      requestType: "onboarding",
+    });
+  }
+}
+
+// Notifies everyone who can review LOAs (e.g. when someone returns early)
+async function notifyLoaReviewers(message: string, type: string, requestId: string, exceptUserId?: string) {
+  const reviewers = (await storage.getAllUsers()).filter((user) =>
+    user.id !== exceptUserId && hasPermission(user, "loa.review")
+  );
+
+  for (const reviewer of reviewers) {
+    await storage.createNotification({
+      userId: reviewer.id,
+      message,
+      type,
+      requestId,
+      requestType: "loa",
+    });
   }
-  next();
 }
 
-// Middleware to check Board of Directors+ rank
-async function requireBoardPlus(req: Request, res: Response, next: NextFunction) {
-  if (!req.session.userId) {
-    return res.status(401).json({ message: "Unauthorized" });
+// The signed-in admin and the user they want to manage, or the response to send instead
+async function getManagedUser(
+  req: Request,
+): Promise<{ admin: User; target: User } | { status: number; message: string }> {
+  const admin = await storage.getUser(req.session.userId!);
+  if (!admin) {
+    return { status: 401, message: "Unauthorized" };
+  }
+
+  const target = await storage.getUser(req.params.id);
+  if (!target) {
+    return { status: 404, message: "User not found" };
   }
 
-  const user = await storage.getUser(req.session.userId);
-  if (!user || !["Board of Directors", "Executive Board"].includes(user.rank)) {
-    return res.status(403).json({ message: "Forbidden: Board of Directors+ rank required" });
+  if (!canManageUser(admin, target)) {
+    return { status: 403, message: "Forbidden: you can only manage users ranked below you" };
   }
 
-  next();
+  return { admin, target };
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Session configuration
+// Department names are unique, and sub-department names unique within their department
+function isOrgNameTaken(siblings: { id: string; name: string }[], name: string, exceptId?: string) {
+  return siblings.some((sibling) => sibling.id !== exceptId && sibling.name.toLowerCase() === name.toLowerCase());
+}
+
+type CommentableRequest = TransferRequest | LoaRequest;
+
+// The request behind a comment thread, if the user may see it: the requester and anyone
+// who can review the request. Others get undefined, same as a missing request.
+async function getCommentableRequest(
+  user: User,
+  requestType: "transfer" | "loa",
+  requestId: string,
+): Promise<CommentableRequest | undefined> {
+  if (requestType === "transfer") {
+    const request = await storage.getTransferRequest(requestId);
+    if (!request) return undefined;
+    const isReviewer = hasPermission(user, "transfer.review", request.currentDepartment) ||
+      hasPermission(user, "transfer.review", request.requestedDepartment);
+    return request.userId === user.id || isReviewer ? request : undefined;
+  }
+
+  const request = await storage.getLoaRequest(requestId);
+  if (!request) return undefined;
+  return request.userId === user.id || hasPermission(user, "loa.review") ? request : undefined;
+}
+
+// Everyone who may review the request right now (for transfers, the pending stage's department)
+async function getCurrentReviewers(requestType: "transfer" | "loa", request: CommentableRequest) {
+  const users = await storage.getAllUsers();
+  if (requestType === "loa") {
+    return users.filter((user) => hasPermission(user, "loa.review"));
+  }
+
+  const transfer = request as TransferRequest;
+  const stage = getTransferReviewStage(transfer);
+  if (!stage) return [];
+  return users.filter((user) => canReviewTransferStage(user, transfer, stage));
+}
+
+// Tells the rest of the thread about a new comment: the requester, earlier commenters and
+// anyone who already reviewed a stage. A requester's first comment goes to the reviewers
+// who can act on the request.
+async function notifyCommentParticipants(
+  requestType: "transfer" | "loa",
+  request: CommentableRequest,
+  author: User,
+  body: string,
+) {
+  const comments = await storage.getRequestComments(requestType, request.id);
+  const participants = new Set([request.userId, ...comments.map((comment) => comment.authorId)]);
+  if (requestType === "transfer") {
+    const transfer = request as TransferRequest;
+    if (transfer.releaseReviewedBy) participants.add(transfer.releaseReviewedBy);
+  }
+  participants.delete(author.id);
+
+  if (participants.size === 0) {
+    for (const reviewer of await getCurrentReviewers(requestType, request)) {
+      if (reviewer.id !== author.id) participants.add(reviewer.id);
+    }
+  }
+
+  const snippet = body.length > 100 ? `${body.slice(0, 97)}...` : body;
+  const label = requestType === "transfer" ? "a transfer request" : "an LOA request";
+  for (const userId of Array.from(participants)) {
+    await storage.createNotification({
+      userId,
+      message: `${author.robloxUsername} commented on ${label}: "${snippet}"`,
+      type: "request_comment",
+      requestId: request.id,
+      requestType,
+    });
+  }
+}
+
+function calendarFeedUrl(token: string) {
+  return `/api/calendar/loa.ics?token=${encodeURIComponent(token)}`;
+}
+
+// Runs the LOA policy against the user's other pending and approved LOAs
+async function checkLoaRequestPolicy(
+  user: User,
+  loa: { startDate: Date; endDate: Date },
+  excludeRequestId?: string,
+): Promise<LoaPolicyViolation[]> {
+  const existing = (await storage.getLoaRequestsByUser(user.id)).filter((other) =>
+    other.id !== excludeRequestId && ["Pending", "Approved"].includes(other.status)
+  );
+  return checkLoaPolicy(loaPolicySettings.get(), loa, { rankId: user.rankId, existing });
+}
+
+// Runs the transfer policy against the org structure, the user's current placement (from
+// their user row) and their other transfers
+async function checkTransferRequestPolicy(
+  user: User,
+  transfer: { requestedDepartment: string; requestedSubDepartment: string },
+  excludeRequestId?: string,
+): Promise<TransferPolicyViolation[]> {
+  const violations: TransferPolicyViolation[] = [];
+  const placementError = validatePlacement(transfer.requestedDepartment, transfer.requestedSubDepartment);
+  if (placementError) {
+    violations.push({ code: "TRANSFER_INVALID_PLACEMENT", message: placementError });
+  }
+
+  const others = (await storage.getTransferRequestsByUser(user.id)).filter((other) => other.id !== excludeRequestId);
+  const lastApprovedAt = others
+    .filter((other) => other.status === "Approved" && other.reviewedAt)
+    .reduce<Date | null>((latest, other) => (!latest || other.reviewedAt! > latest ? other.reviewedAt : latest), null);
+
+  return [
+    ...violations,
+    ...checkTransferPolicy(transferPolicySettings.get(), transfer, {
+      currentDepartment: user.department,
+      currentSubDepartment: user.subDepartment,
+      hasOpenTransfer: others.some((other) => other.status === "Pending"),
+      lastApprovedAt,
+    }),
+  ];
+}
+
+function createSessionStore(): session.Store {
   const sessionStore = new PgSession({
     pool,
     tableName: "session",
@@ -59,24 +327,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error('Session store error:', error);
   });
 
-  app.use(
-    session({
-      store: sessionStore,
-      secret: process.env.SESSION_SECRET || "roblox-staff-portal-secret-key",
-      resave: false,
-      saveUninitialized: true, // Changed to true to ensure session is created
-      rolling: true,
-      proxy: true, // Trust the proxy (Replit uses a proxy)
-      cookie: {
-        maxAge: 30 * 24 * 60 * 60 * 1000,
-        httpOnly: true,
-        secure: false,
-        sameSite: "lax",
-        path: "/",
-      },
-      name: "connect.sid", // Use default session name
-    })
-  );
+  return sessionStore;
+}
+
+// Sessions live in Postgres (destroySessionsForUser deletes from the same table); tests pass
+// an in-memory store instead
+export async function registerRoutes(app: Express, sessionStore: session.Store = createSessionStore()): Promise<Server> {
+  // Session configuration
+  const sessionMiddleware = session({
+    store: sessionStore,
+    secret: process.env.SESSION_SECRET || "roblox-staff-portal-secret-key",
+    resave: false,
+    saveUninitialized: true, // Changed to true to ensure session is created
+    rolling: true,
+    proxy: true, // Trust the proxy (Replit uses a proxy)
+    cookie: {
+      maxAge: 30 * 24 * 60 * 60 * 1000,
+      httpOnly: true,
+      secure: false,
+      sameSite: "lax",
+      path: "/",
+    },
+    name: "connect.sid", // Use default session name
+  });
+
+  app.use(sessionMiddleware);
 
   // ========== Authentication Routes ==========
 
@@ -99,8 +374,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const rankInfo = await roblox.verifyUserRank(robloxUser.id);
       
       if (!rankInfo.valid) {
+        const { groupId, minPortalRankId } = getRobloxSettings();
         return res.status(403).json({ 
-          message: "You are not eligible to access this portal. You must be Supervisor+ rank in group 10260222." 
+          message: `You are not eligible to access this portal. You must be ${roblox.mapRankIdToName(minPortalRankId)}+ rank in group ${groupId}.` 
         });
       }
 
@@ -114,8 +390,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiresAt,
       });
 
+      await recordAudit(req, {
+        action: "auth.code_generated",
+        entityType: "roblox_user",
+        entityId: robloxUser.id.toString(),
+        after: { username: robloxUser.username, expiresAt },
+      });
+
       res.json({ code, expiresAt });
     } catch (error) {
+      if (error instanceof roblox.RobloxUnavailableError) {
+        return res.status(503).json({ message: ROBLOX_UNAVAILABLE_MESSAGE });
+      }
       console.error("Generate code error:", error);
       res.status(500).json({ message: "Failed to generate verification code" });
     }
@@ -153,6 +439,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Check if verification code appears in About Me
       if (!aboutMe.includes(verificationCode.code)) {
+        await recordAudit(req, {
+          action: "auth.login_failed",
+          entityType: "roblox_user",
+          entityId: robloxUser.id.toString(),
+          after: { username: robloxUser.username, reason: "code_not_found" },
+        });
         return res.status(400).json({ 
           message: "Verification code not found in your Roblox About Me section. Please add the code and try again." 
         });
@@ -162,9 +454,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const rankInfo = await roblox.verifyUserRank(robloxUser.id);
       
       if (!rankInfo.valid) {
+        await recordAudit(req, {
+          action: "auth.login_failed",
+          entityType: "roblox_user",
+          entityId: robloxUser.id.toString(),
+          after: { username: robloxUser.username, reason: "rank_not_eligible", rankId: rankInfo.rankId ?? null },
+        });
+        const { groupId, minPortalRankId } = getRobloxSettings();
         return res.status(403).json({ 
-          message: "You must be Supervisor+ rank in group 10260222 to access the portal" 
+          message: `You must be ${roblox.mapRankIdToName(minPortalRankId)}+ rank in group ${groupId} to access the portal` 
+        });
+      }
+
+      // Get or create user
+      let user = await storage.getUserByRobloxId(robloxUser.id.toString());
+
+      if (user && isSuspended(user)) {
+        await recordAudit(req, {
+          actor: user,
+          action: "auth.login_failed",
+          entityType: "user",
+          entityId: user.id,
+          after: { username: robloxUser.username, reason: "suspended" },
         });
+        return res.status(403).json(suspensionResponse(user));
       }
 
       // Mark code as used
@@ -173,25 +486,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Map rank to standardized name
       const standardizedRank = roblox.mapRankIdToName(rankInfo.rankId || 0);
 
-      // Get or create user
-      let user = await storage.getUserByRobloxId(robloxUser.id.toString());
-      
       if (user) {
+        const previous = user;
+
         // Update existing user's last login and rank
         user = await storage.updateUser(user.id, {
           rank: standardizedRank,
           rankId: rankInfo.rankId || 0,
           lastLogin: new Date(),
         });
+
+        if (user && (previous.rank !== user.rank || previous.rankId !== user.rankId)) {
+          await storage.createRankChange({
+            userId: user.id,
+            fromRank: previous.rank,
+            fromRankId: previous.rankId,
+            toRank: user.rank,
+            toRankId: user.rankId,
+            source: "login",
+          });
+          await recordAudit(req, {
+            actor: user,
+            action: "user.rank_change",
+            entityType: "user",
+            entityId: user.id,
+            before: { rank: previous.rank, rankId: previous.rankId },
+            after: { rank: user.rank, rankId: user.rankId },
+          });
+        }
       } else {
-        // Create new user - assign to HR/Recruitment by default
+        // Create new user - they pick their department when onboarding
         user = await storage.createUser({
           robloxUsername: robloxUser.username,
           robloxUserId: robloxUser.id.toString(),
           rank: standardizedRank,
           rankId: rankInfo.rankId || 0,
-          department: "HR",
-          subDepartment: "Recruitment",
+          department: null,
+          subDepartment: null,
+          onboardingStatus: "Pending",
+        });
+        await recordAudit(req, {
+          actor: user,
+          action: "user.create",
+          entityType: "user",
+          entityId: user.id,
+          after: user,
         });
       }
 
@@ -208,16 +547,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           else resolve();
         });
       });
+
+      await recordAudit(req, {
+        actor: user,
+        action: "auth.login",
+        entityType: "user",
+        entityId: user.id,
+      });
       
       res.json({ success: true, user });
     } catch (error) {
+      if (error instanceof roblox.RobloxUnavailableError) {
+        return res.status(503).json({ message: ROBLOX_UNAVAILABLE_MESSAGE });
+      }
       console.error("Verification error:", error);
       res.status(500).json({ message: "Verification failed" });
     }
   });
 
   // Get current user
-  app.get("/api/auth/me", requireAuth, async (req: Request, res: Response) => {
+  app.get("/api/auth/me", requireSession, async (req: Request, res: Response) => {
     try {
       const user = await storage.getUser(req.session.userId!);
       
@@ -226,7 +575,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not found" });
       }
 
-      res.json(user);
+      res.json({ ...user, permissions: getEffectivePermissions(user) });
     } catch (error) {
       console.error("Get user error:", error);
       res.status(500).json({ message: "Failed to get user" });
@@ -234,7 +583,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Logout
-  app.post("/api/auth/logout", (req: Request, res: Response) => {
+  app.post("/api/auth/logout", async (req: Request, res: Response) => {
+    if (req.session.userId) {
+      await recordAudit(req, {
+        action: "auth.logout",
+        entityType: "user",
+        entityId: req.session.userId,
+      });
+    }
+
     req.session.destroy((err) => {
       if (err) {
         return res.status(500).json({ message: "Logout failed" });
@@ -243,201 +600,2082 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // ========== Transfer Request Routes ==========
+  // ========== Onboarding Routes ==========
 
-  // Get user's transfer requests
-  app.get("/api/transfer-requests", requireAuth, async (req: Request, res: Response) => {
+  // Get the signed-in user's onboarding status and latest claim
+  app.get("/api/onboarding", requireSession, async (req: Request, res: Response) => {
     try {
-      const requests = await storage.getTransferRequestsByUser(req.session.userId!);
-      res.json(requests);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const claim = await storage.getLatestOnboardingClaim(user.id);
+      res.json({ onboardingStatus: user.onboardingStatus, claim: claim ?? null });
     } catch (error) {
-      console.error("Get transfer requests error:", error);
-      res.status(500).json({ message: "Failed to get transfer requests" });
+      console.error("Get onboarding error:", error);
+      res.status(500).json({ message: "Failed to get onboarding status" });
     }
   });
 
-  // Create transfer request
-  app.post("/api/transfer-requests", requireAuth, async (req: Request, res: Response) => {
+  // Claim a department and sub-department for that department's leadership to confirm
+  app.post("/api/onboarding/claim", requireSession, async (req: Request, res: Response) => {
     try {
-      const validatedData = insertTransferRequestSchema.parse({
-        ...req.body,
-        userId: req.session.userId,
+      const placement = userAssignmentSchema.parse(req.body);
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (user.onboardingStatus === "Complete") {
+        return res.status(409).json({ message: "Onboarding is already complete" });
+      }
+
+      const latest = await storage.getLatestOnboardingClaim(user.id);
+      if (latest?.status === "Pending") {
+        return res.status(409).json({ message: "Your claim is still waiting for confirmation" });
+      }
+
+      const placementError = validatePlacement(placement.department, placement.subDepartment);
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+
+      const claim = await storage.createOnboardingClaim(user.id, placement);
+      if (!claim) {
+        return res.status(409).json({ message: "Your claim is still waiting for confirmation" });
+      }
+
+      await recordAudit(req, {
+        actor: user,
+        action: "onboarding.claim",
+        entityType: "onboarding",
+        entityId: claim.id,
+        after: claim,
       });
 
-      const request = await storage.createTransferRequest(validatedData);
-      res.json(request);
+      await notifyOnboardingReviewers(claim, user);
+      portalEvents.emit("queue.changed", { queue: "onboarding", requestId: claim.id, departments: [claim.department] });
+
+      res.status(201).json(claim);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
-      console.error("Create transfer request error:", error);
-      res.status(500).json({ message: "Failed to create transfer request" });
+      console.error("Create onboarding claim error:", error);
+      res.status(500).json({ message: "Failed to submit onboarding claim" });
     }
   });
 
-  // ========== LOA Request Routes ==========
-
-  // Get user's LOA requests
-  app.get("/api/loa-requests", requireAuth, async (req: Request, res: Response) => {
+  // Get pending onboarding claims (department leadership only sees claims on their department)
+  app.get("/api/admin/onboarding-claims", requirePermission("onboarding.review"), async (req: Request, res: Response) => {
     try {
-      const requests = await storage.getLoaRequestsByUser(req.session.userId!);
-      res.json(requests);
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const reach = getPermissionReach(reviewer, "onboarding.review");
+      if (!reach) {
+        return res.status(403).json({ message: "Forbidden: missing permission onboarding.review" });
+      }
+
+      const scopeDepartment = reach.scope === "global" ? undefined : reach.department;
+      const claims = await storage.getPendingOnboardingClaims(scopeDepartment);
+      res.json(await withOnboardingProfiles(claims));
     } catch (error) {
-      console.error("Get LOA requests error:", error);
-      res.status(500).json({ message: "Failed to get LOA requests" });
+      console.error("Get onboarding claims error:", error);
+      res.status(500).json({ message: "Failed to get onboarding claims" });
     }
   });
 
-  // Create LOA request
-  app.post("/api/loa-requests", requireAuth, async (req: Request, res: Response) => {
+  // Confirm or reject an onboarding claim
+  app.patch("/api/admin/onboarding-claims/:id", requirePermission("onboarding.review"), async (req: Request, res: Response) => {
     try {
-      const validatedData = insertLoaRequestSchema.parse({
-        ...req.body,
-        userId: req.session.userId,
-        startDate: new Date(req.body.startDate),
-        endDate: new Date(req.body.endDate),
+      const { status, note } = reviewDecisionSchema.parse(req.body);
+
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const existing = await storage.getOnboardingClaim(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+
+      if (!hasPermission(reviewer, "onboarding.review", existing.department)) {
+        return res.status(403).json({ message: `Forbidden: onboarding.review for ${existing.department} required` });
+      }
+
+      if (!canTransitionRequest(existing.status, status)) {
+        return res.status(409).json({ message: `Claim is already ${existing.status.toLowerCase()}` });
+      }
+
+      // The structure may have changed since the claim was made
+      if (status === "Approved") {
+        const claimant = await storage.getUser(existing.userId);
+        const placementError = validatePlacement(existing.department, existing.subDepartment)
+          ?? (claimant ? await checkHeadcount(claimant, existing.department, existing.subDepartment) : null);
+        if (placementError) {
+          return res.status(409).json({ message: placementError });
+        }
+      }
+
+      const claim = await storage.reviewOnboardingClaim(existing.id, status, reviewer.id, note ?? null);
+      if (!claim) {
+        return res.status(409).json({ message: "Claim has already been reviewed" });
+      }
+
+      await recordAudit(req, {
+        actor: reviewer,
+        action: "onboarding.review",
+        entityType: "onboarding",
+        entityId: claim.id,
+        before: existing,
+        after: claim,
       });
 
-      const request = await storage.createLoaRequest(validatedData);
-      res.json(request);
+      await storage.createNotification({
+        userId: claim.userId,
+        message: status === "Approved"
+          ? withReviewNote(`Welcome to ${placementLabel(claim.department, claim.subDepartment)}! Your placement has been confirmed`, status, claim.reviewNote)
+          : withReviewNote(`Your claim to ${placementLabel(claim.department, claim.subDepartment)} was not confirmed. Please pick your department again`, status, claim.reviewNote),
+        type: `onboarding_${status.toLowerCase()}`,
+        requestId: claim.id,
+        requestType: "onboarding",
+      });
+
+      portalEvents.emit("queue.changed", { queue: "onboarding", requestId: claim.id, departments: [claim.department] });
+
+      res.json(claim);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
-      console.error("Create LOA request error:", error);
-      res.status(500).json({ message: "Failed to create LOA request" });
+      console.error("Review onboarding claim error:", error);
+      res.status(500).json({ message: "Failed to review onboarding claim" });
     }
   });
 
-  // ========== Notification Routes ==========
+  // ========== User Routes ==========
 
-  // Get user's notifications
-  app.get("/api/notifications", requireAuth, async (req: Request, res: Response) => {
+  // Get a user's department assignment timeline (own history, or anyone's with users.manage)
+  app.get("/api/users/:id/assignments", requireAuth, async (req: Request, res: Response) => {
     try {
-      const notifications = await storage.getNotificationsByUser(req.session.userId!);
-      res.json(notifications);
+      if (req.params.id !== req.session.userId) {
+        const viewer = await storage.getUser(req.session.userId!);
+        if (!viewer || !hasPermission(viewer, "users.manage")) {
+          return res.status(403).json({ message: "Forbidden: missing permission users.manage" });
+        }
+      }
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const assignments = await storage.getDepartmentAssignmentsByUser(user.id);
+      res.json(assignments);
     } catch (error) {
-      console.error("Get notifications error:", error);
-      res.status(500).json({ message: "Failed to get notifications" });
+      console.error("Get department assignments error:", error);
+      res.status(500).json({ message: "Failed to get department assignments" });
     }
   });
 
-  // Mark notification as read
-  app.patch("/api/notifications/:id/read", requireAuth, async (req: Request, res: Response) => {
+  // ========== Staff Directory Routes ==========
+
+  // Search the staff directory, a page at a time
+  app.get("/api/staff", requireSession, async (req: Request, res: Response) => {
     try {
-      await storage.markNotificationAsRead(req.params.id);
-      res.json({ success: true });
+      const query = staffDirectoryQuerySchema.parse(req.query);
+      const page = await storage.queryStaffDirectory(query);
+      res.json({ ...page, items: await withStaffProfiles(page.items) });
     } catch (error) {
-      console.error("Mark notification as read error:", error);
-      res.status(500).json({ message: "Failed to mark notification as read" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid directory query", errors: error.errors });
+      }
+      console.error("Get staff directory error:", error);
+      res.status(500).json({ message: "Failed to get staff directory" });
     }
   });
 
-  // Mark all notifications as read
-  app.post("/api/notifications/mark-all-read", requireAuth, async (req: Request, res: Response) => {
+  // Staff grouped by department and sub-department, in rank order
+  app.get("/api/staff/org-chart", requireSession, async (req: Request, res: Response) => {
     try {
-      await storage.markAllNotificationsAsRead(req.session.userId!);
-      res.json({ success: true });
+      const { department } = orgChartQuerySchema.parse(req.query);
+      const members = await storage.getStaffMembers(department);
+      res.json(buildOrgChart(await withStaffProfiles(members), department));
     } catch (error) {
-      console.error("Mark all notifications as read error:", error);
-      res.status(500).json({ message: "Failed to mark all notifications as read" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid org chart query", errors: error.errors });
+      }
+      console.error("Get org chart error:", error);
+      res.status(500).json({ message: "Failed to get org chart" });
     }
   });
 
-  // ========== Admin Routes (Board of Directors+ only) ==========
+  // ========== Organisation Routes ==========
 
-  // Get all transfer requests
-  app.get("/api/admin/transfer-requests", requireBoardPlus, async (req: Request, res: Response) => {
+  // Get the department tree, archived entries included, with headcounts
+  app.get("/api/org", requireSession, async (_req: Request, res: Response) => {
     try {
-      const requests = await storage.getAllTransferRequests();
-      res.json(requests);
+      res.json(await getOrgTree());
     } catch (error) {
-      console.error("Get all transfer requests error:", error);
-      res.status(500).json({ message: "Failed to get transfer requests" });
+      console.error("Get org structure error:", error);
+      res.status(500).json({ message: "Failed to get org structure" });
     }
   });
 
-  // Update transfer request (approve/reject)
-  app.patch("/api/admin/transfer-requests/:id", requireBoardPlus, async (req: Request, res: Response) => {
+  // Add a department (at the end of the list)
+  app.post("/api/admin/org/departments", requirePermission("org.manage"), async (req: Request, res: Response) => {
     try {
-      const { status } = req.body;
+      const validatedData = insertDepartmentSchema.parse(req.body);
 
-      if (!["Approved", "Rejected"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      await loadOrgStructure();
+      if (isOrgNameTaken(getDepartments(), validatedData.name)) {
+        return res.status(409).json({ message: `A department called ${validatedData.name} already exists` });
       }
 
-      const request = await storage.updateTransferRequest(
-        req.params.id,
-        status,
-        req.session.userId!
-      );
+      const department = await storage.createDepartment(validatedData);
+      await loadOrgStructure();
 
-      if (!request) {
-        return res.status(404).json({ message: "Request not found" });
+      await recordAudit(req, {
+        action: "org.department_create",
+        entityType: "department",
+        entityId: department.id,
+        after: department,
+      });
+
+      res.status(201).json(department);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
+      console.error("Create department error:", error);
+      res.status(500).json({ message: "Failed to create department" });
+    }
+  });
 
-      // Create notification for user
-      await storage.createNotification({
-        userId: request.userId,
-        message: `Your transfer request has been ${status.toLowerCase()}`,
-        type: `transfer_${status.toLowerCase()}`,
-        requestId: request.id,
-        requestType: "transfer",
+  // Rename, reorder, cap or archive a department. Members keep its id, so nothing else changes.
+  app.patch("/api/admin/org/departments/:id", requirePermission("org.manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = updateDepartmentSchema.parse(req.body);
+      if (Object.keys(validatedData).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      await loadOrgStructure();
+      const existing = getDepartment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+
+      if (validatedData.name && isOrgNameTaken(getDepartments(), validatedData.name, existing.id)) {
+        return res.status(409).json({ message: `A department called ${validatedData.name} already exists` });
+      }
+
+      const department = await storage.updateDepartment(existing.id, validatedData);
+      if (!department) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      await loadOrgStructure();
+
+      await recordAudit(req, {
+        action: "org.department_update",
+        entityType: "department",
+        entityId: department.id,
+        before: existing,
+        after: department,
       });
 
-      res.json(request);
+      res.json(department);
     } catch (error) {
-      console.error("Update transfer request error:", error);
-      res.status(500).json({ message: "Failed to update transfer request" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Update department error:", error);
+      res.status(500).json({ message: "Failed to update department" });
     }
   });
 
-  // Get all LOA requests
-  app.get("/api/admin/loa-requests", requireBoardPlus, async (req: Request, res: Response) => {
+  // Delete a department nothing refers to; anything in use is archived instead
+  app.delete("/api/admin/org/departments/:id", requirePermission("org.manage"), async (req: Request, res: Response) => {
     try {
-      const requests = await storage.getAllLoaRequests();
-      res.json(requests);
+      await loadOrgStructure();
+      const existing = getDepartment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+
+      if (getSubDepartmentsOf(existing.id).length > 0) {
+        return res.status(409).json({ message: `Delete the sub-departments of ${existing.name} first` });
+      }
+
+      if (await storage.isOrgUnitReferenced("department", existing.id)) {
+        return res.status(409).json({ message: `${existing.name} is in use; archive it instead` });
+      }
+
+      const department = await storage.deleteDepartment(existing.id);
+      if (!department) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      await loadOrgStructure();
+
+      await recordAudit(req, {
+        action: "org.department_delete",
+        entityType: "department",
+        entityId: department.id,
+        before: department,
+      });
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Get all LOA requests error:", error);
-      res.status(500).json({ message: "Failed to get LOA requests" });
+      // Something came to refer to it after the check above
+      if (isForeignKeyViolation(error)) {
+        return res.status(409).json({ message: "Department is in use; archive it instead" });
+      }
+      console.error("Delete department error:", error);
+      res.status(500).json({ message: "Failed to delete department" });
     }
   });
 
-  // Update LOA request (approve/reject)
-  app.patch("/api/admin/loa-requests/:id", requireBoardPlus, async (req: Request, res: Response) => {
+  // Add a sub-department to a department
+  app.post("/api/admin/org/departments/:id/sub-departments", requirePermission("org.manage"), async (req: Request, res: Response) => {
     try {
-      const { status } = req.body;
+      const validatedData = insertSubDepartmentSchema.parse(req.body);
 
-      if (!["Approved", "Rejected"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      await loadOrgStructure();
+      const department = getDepartment(req.params.id);
+      if (!department) {
+        return res.status(404).json({ message: "Department not found" });
       }
 
-      const request = await storage.updateLoaRequest(
-        req.params.id,
-        status,
-        req.session.userId!
-      );
-
-      if (!request) {
-        return res.status(404).json({ message: "Request not found" });
+      if (isOrgNameTaken(getSubDepartmentsOf(department.id), validatedData.name)) {
+        return res.status(409).json({ message: `${department.name} already has a sub-department called ${validatedData.name}` });
       }
 
-      // Create notification for user
-      await storage.createNotification({
-        userId: request.userId,
-        message: `Your LOA request has been ${status.toLowerCase()}`,
-        type: `loa_${status.toLowerCase()}`,
-        requestId: request.id,
-        requestType: "loa",
+      const subDepartment = await storage.createSubDepartment(department.id, validatedData);
+      await loadOrgStructure();
+
+      await recordAudit(req, {
+        action: "org.sub_department_create",
+        entityType: "sub_department",
+        entityId: subDepartment.id,
+        after: subDepartment,
       });
 
-      res.json(request);
+      res.status(201).json(subDepartment);
     } catch (error) {
-      console.error("Update LOA request error:", error);
-      res.status(500).json({ message: "Failed to update LOA request" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Create sub-department error:", error);
+      res.status(500).json({ message: "Failed to create sub-department" });
     }
   });
 
+  // Rename, reorder, cap or archive a sub-department
+  app.patch("/api/admin/org/sub-departments/:id", requirePermission("org.manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = updateSubDepartmentSchema.parse(req.body);
+      if (Object.keys(validatedData).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      await loadOrgStructure();
+      const existing = getSubDepartment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Sub-department not found" });
+      }
+
+      if (validatedData.name && isOrgNameTaken(getSubDepartmentsOf(existing.departmentId), validatedData.name, existing.id)) {
+        return res.status(409).json({ message: `${placementLabel(existing.departmentId, null)} already has a sub-department called ${validatedData.name}` });
+      }
+
+      const subDepartment = await storage.updateSubDepartment(existing.id, validatedData);
+      if (!subDepartment) {
+        return res.status(404).json({ message: "Sub-department not found" });
+      }
+      await loadOrgStructure();
+
+      await recordAudit(req, {
+        action: "org.sub_department_update",
+        entityType: "sub_department",
+        entityId: subDepartment.id,
+        before: existing,
+        after: subDepartment,
+      });
+
+      res.json(subDepartment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Update sub-department error:", error);
+      res.status(500).json({ message: "Failed to update sub-department" });
+    }
+  });
+
+  // Delete a sub-department nothing refers to; anything in use is archived instead
+  app.delete("/api/admin/org/sub-departments/:id", requirePermission("org.manage"), async (req: Request, res: Response) => {
+    try {
+      await loadOrgStructure();
+      const existing = getSubDepartment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Sub-department not found" });
+      }
+
+      if (await storage.isOrgUnitReferenced("subDepartment", existing.id)) {
+        return res.status(409).json({ message: `${placementLabel(existing.departmentId, existing.id)} is in use; archive it instead` });
+      }
+
+      const subDepartment = await storage.deleteSubDepartment(existing.id);
+      if (!subDepartment) {
+        return res.status(404).json({ message: "Sub-department not found" });
+      }
+      await loadOrgStructure();
+
+      await recordAudit(req, {
+        action: "org.sub_department_delete",
+        entityType: "sub_department",
+        entityId: subDepartment.id,
+        before: subDepartment,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      // Something came to refer to it after the check above
+      if (isForeignKeyViolation(error)) {
+        return res.status(409).json({ message: "Sub-department is in use; archive it instead" });
+      }
+      console.error("Delete sub-department error:", error);
+      res.status(500).json({ message: "Failed to delete sub-department" });
+    }
+  });
+
+  // ========== Transfer Request Routes ==========
+
+  // Get user's transfer requests
+  app.get("/api/transfer-requests", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const requests = await storage.getTransferRequestsByUser(req.session.userId!);
+      res.json(await withTransferProfiles(requests));
+    } catch (error) {
+      console.error("Get transfer requests error:", error);
+      res.status(500).json({ message: "Failed to get transfer requests" });
+    }
+  });
+
+  // Create transfer request
+  app.post("/api/transfer-requests", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const data = submitTransferRequestSchema.parse(req.body);
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const violations = await checkTransferRequestPolicy(user, data);
+      if (violations.length > 0) {
+        return res.status(400).json({ message: violations[0].message, code: violations[0].code, errors: violations });
+      }
+
+      // The current placement is whatever the portal has on record, not what the form says
+      const validatedData = insertTransferRequestSchema.parse({
+        ...data,
+        userId: user.id,
+        currentDepartment: user.department,
+        currentSubDepartment: user.subDepartment,
+      });
+
+      const request = await storage.createTransferRequest(validatedData);
+      if (!request) {
+        // Another submission got in between the check and the insert
+        const violation = TRANSFER_ALREADY_OPEN_VIOLATION;
+        return res.status(400).json({ message: violation.message, code: violation.code, errors: [violation] });
+      }
+
+      emitTransferQueueChanged(request);
+      portalEvents.emit("request.activity", { requestType: "transfer", action: "created", requestId: request.id });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Create transfer request error:", error);
+      res.status(500).json({ message: "Failed to create transfer request" });
+    }
+  });
+
+  // Edit own pending transfer request (only before it has been released)
+  app.patch("/api/transfer-requests/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const data = updateTransferRequestSchema.parse(req.body);
+
+      if (Object.keys(data).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      const existing = await storage.getTransferRequest(req.params.id);
+      if (!existing || existing.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (existing.status !== "Pending") {
+        return res.status(409).json({ message: `Request is already ${existing.status.toLowerCase()}` });
+      }
+
+      if (existing.releaseStatus !== "Pending") {
+        return res.status(409).json({ message: "Request has already been released; withdraw it and submit a new one instead" });
+      }
+
+      if (data.requestedDepartment !== undefined || data.requestedSubDepartment !== undefined) {
+        const user = await storage.getUser(existing.userId);
+        if (!user) {
+          return res.status(401).json({ message: "Unauthorized" });
+        }
+
+        const violations = await checkTransferRequestPolicy(user, {
+          requestedDepartment: data.requestedDepartment ?? existing.requestedDepartment,
+          requestedSubDepartment: data.requestedSubDepartment ?? existing.requestedSubDepartment,
+        }, existing.id);
+        if (violations.length > 0) {
+          return res.status(400).json({ message: violations[0].message, code: violations[0].code, errors: violations });
+        }
+      }
+
+      const request = await storage.updateTransferRequestDetails(existing.id, existing.userId, data);
+      if (!request) {
+        return res.status(409).json({ message: "Request is no longer pending" });
+      }
+
+      await recordAudit(req, {
+        action: "transfer.edit",
+        entityType: "transfer",
+        entityId: request.id,
+        before: existing,
+        after: request,
+      });
+
+      emitTransferQueueChanged(request);
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Edit transfer request error:", error);
+      res.status(500).json({ message: "Failed to edit transfer request" });
+    }
+  });
+
+  // Withdraw own pending transfer request
+  app.post("/api/transfer-requests/:id/withdraw", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getTransferRequest(req.params.id);
+      if (!existing || existing.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (!canTransitionRequest(existing.status, "Withdrawn")) {
+        return res.status(409).json({ message: `Request is already ${existing.status.toLowerCase()}` });
+      }
+
+      const request = await storage.withdrawTransferRequest(existing.id, existing.userId);
+      if (!request) {
+        return res.status(409).json({ message: "Request is no longer pending" });
+      }
+
+      await recordAudit(req, {
+        action: "transfer.withdraw",
+        entityType: "transfer",
+        entityId: request.id,
+        before: existing,
+        after: request,
+      });
+
+      emitTransferQueueChanged(request);
+
+      res.json(request);
+    } catch (error) {
+      console.error("Withdraw transfer request error:", error);
+      res.status(500).json({ message: "Failed to withdraw transfer request" });
+    }
+  });
+
+  // ========== LOA Request Routes ==========
+
+  // Get user's LOA requests
+  app.get("/api/loa-requests", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const requests = await storage.getLoaRequestsByUser(req.session.userId!);
+      res.json(await withLoaProfiles(requests));
+    } catch (error) {
+      console.error("Get LOA requests error:", error);
+      res.status(500).json({ message: "Failed to get LOA requests" });
+    }
+  });
+
+  // Create LOA request
+  app.post("/api/loa-requests", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertLoaRequestSchema.parse({
+        ...req.body,
+        userId: req.session.userId,
+        startDate: new Date(req.body.startDate),
+        endDate: new Date(req.body.endDate),
+      });
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const violations = await checkLoaRequestPolicy(user, validatedData);
+      if (violations.length > 0) {
+        return res.status(400).json({ message: violations[0].message, code: violations[0].code, errors: violations });
+      }
+
+      const request = await storage.createLoaRequest(validatedData);
+      portalEvents.emit("queue.changed", { queue: "loa", requestId: request.id });
+      portalEvents.emit("request.activity", { requestType: "loa", action: "created", requestId: request.id });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Create LOA request error:", error);
+      res.status(500).json({ message: "Failed to create LOA request" });
+    }
+  });
+
+  // Get the LOA policy so forms can validate before submitting (see checkLoaPolicy)
+  app.get("/api/loa-policy", requireAuth, async (_req: Request, res: Response) => {
+    res.json(loaPolicySettings.get());
+  });
+
+  // Get the transfer policy so forms can validate before submitting (see checkTransferPolicy)
+  app.get("/api/transfer-policy", requireAuth, async (_req: Request, res: Response) => {
+    res.json(transferPolicySettings.get());
+  });
+
+  // Edit own pending LOA request
+  app.patch("/api/loa-requests/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const body = { ...req.body };
+      if (body.startDate !== undefined) body.startDate = new Date(body.startDate);
+      if (body.endDate !== undefined) body.endDate = new Date(body.endDate);
+      const data = updateLoaRequestSchema.parse(body);
+
+      if (Object.keys(data).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      const existing = await storage.getLoaRequest(req.params.id);
+      if (!existing || existing.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (existing.status !== "Pending") {
+        return res.status(409).json({ message: `Request is already ${existing.status.toLowerCase()}` });
+      }
+
+      if (data.startDate || data.endDate) {
+        const user = await storage.getUser(existing.userId);
+        if (!user) {
+          return res.status(401).json({ message: "Unauthorized" });
+        }
+
+        const violations = await checkLoaRequestPolicy(user, {
+          startDate: data.startDate ?? existing.startDate,
+          endDate: data.endDate ?? existing.endDate,
+        }, existing.id);
+        if (violations.length > 0) {
+          return res.status(400).json({ message: violations[0].message, code: violations[0].code, errors: violations });
+        }
+      }
+
+      const request = await storage.updateLoaRequestDetails(existing.id, existing.userId, data);
+      if (!request) {
+        return res.status(409).json({ message: "Request is no longer pending" });
+      }
+
+      await recordAudit(req, {
+        action: "loa.edit",
+        entityType: "loa",
+        entityId: request.id,
+        before: existing,
+        after: request,
+      });
+
+      portalEvents.emit("queue.changed", { queue: "loa", requestId: request.id });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Edit LOA request error:", error);
+      res.status(500).json({ message: "Failed to edit LOA request" });
+    }
+  });
+
+  // Withdraw own pending LOA request
+  app.post("/api/loa-requests/:id/withdraw", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getLoaRequest(req.params.id);
+      if (!existing || existing.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (!canTransitionRequest(existing.status, "Withdrawn")) {
+        return res.status(409).json({ message: `Request is already ${existing.status.toLowerCase()}` });
+      }
+
+      const request = await storage.withdrawLoaRequest(existing.id, existing.userId);
+      if (!request) {
+        return res.status(409).json({ message: "Request is no longer pending" });
+      }
+
+      await recordAudit(req, {
+        action: "loa.withdraw",
+        entityType: "loa",
+        entityId: request.id,
+        before: existing,
+        after: request,
+      });
+
+      portalEvents.emit("queue.changed", { queue: "loa", requestId: request.id });
+
+      res.json(request);
+    } catch (error) {
+      console.error("Withdraw LOA request error:", error);
+      res.status(500).json({ message: "Failed to withdraw LOA request" });
+    }
+  });
+
+  // Get the adjustment history (extensions and early returns) of an LOA
+  app.get("/api/loa-requests/:id/adjustments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const request = await storage.getLoaRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (request.userId !== req.session.userId) {
+        const viewer = await storage.getUser(req.session.userId!);
+        if (!viewer || !hasPermission(viewer, "loa.review")) {
+          return res.status(404).json({ message: "Request not found" });
+        }
+      }
+
+      const adjustments = await storage.getLoaAdjustmentsByRequest(request.id);
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Get LOA adjustments error:", error);
+      res.status(500).json({ message: "Failed to get LOA adjustments" });
+    }
+  });
+
+  // Ask to extend own approved LOA to a later end date (goes back through review)
+  app.post("/api/loa-requests/:id/extensions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { endDate, reason } = loaExtensionRequestSchema.parse(req.body);
+
+      const request = await storage.getLoaRequest(req.params.id);
+      if (!request || request.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (request.status !== "Approved") {
+        return res.status(409).json({ message: "Only approved LOAs can be extended" });
+      }
+
+      if (endDate.getTime() <= request.endDate.getTime()) {
+        return res.status(400).json({ message: "The new end date must be after the current end date" });
+      }
+
+      const adjustments = await storage.getLoaAdjustmentsByRequest(request.id);
+      if (adjustments.some((adjustment) => adjustment.status === "Pending")) {
+        return res.status(409).json({ message: "This LOA already has a pending extension" });
+      }
+
+      const user = await storage.getUser(request.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      // The LOA has usually started already, so the advance-notice rule doesn't apply
+      const violations = (await checkLoaRequestPolicy(user, { startDate: request.startDate, endDate }, request.id))
+        .filter((violation) => violation.code !== "LOA_INSUFFICIENT_NOTICE");
+      if (violations.length > 0) {
+        return res.status(400).json({ message: violations[0].message, code: violations[0].code, errors: violations });
+      }
+
+      const adjustment = await storage.createLoaAdjustment({
+        loaRequestId: request.id,
+        userId: user.id,
+        type: "Extension",
+        previousEndDate: request.endDate,
+        requestedEndDate: endDate,
+        reason,
+      });
+
+      await recordAudit(req, {
+        actor: user,
+        action: "loa.extension_request",
+        entityType: "loa",
+        entityId: request.id,
+        after: adjustment,
+      });
+
+      portalEvents.emit("queue.changed", { queue: "loa_adjustment", requestId: adjustment.id });
+
+      res.json(adjustment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Create LOA extension error:", error);
+      res.status(500).json({ message: "Failed to request LOA extension" });
+    }
+  });
+
+  // End own approved LOA now; applies immediately and lets the reviewers know
+  app.post("/api/loa-requests/:id/early-return", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { reason } = loaEarlyReturnSchema.parse(req.body ?? {});
+
+      const request = await storage.getLoaRequest(req.params.id);
+      if (!request || request.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const now = new Date();
+      if (request.status !== "Approved") {
+        return res.status(409).json({ message: "Only approved LOAs can be ended early" });
+      }
+      if (request.startDate.getTime() > now.getTime()) {
+        return res.status(409).json({ message: "This LOA hasn't started yet" });
+      }
+      if (request.endDate.getTime() <= now.getTime()) {
+        return res.status(409).json({ message: "This LOA has already ended" });
+      }
+
+      const adjustment = await storage.recordEarlyReturn(request.id, request.userId, now, reason || null);
+      if (!adjustment) {
+        return res.status(409).json({ message: "This LOA can no longer be ended early" });
+      }
+
+      const user = await storage.getUser(request.userId);
+      await recordAudit(req, {
+        actor: user,
+        action: "loa.early_return",
+        entityType: "loa",
+        entityId: request.id,
+        before: { endDate: request.endDate },
+        after: adjustment,
+      });
+
+      await refreshLoaLifecycle();
+
+      await notifyLoaReviewers(
+        `${user?.robloxUsername ?? "A staff member"} has returned early from their LOA`,
+        "loa_early_return",
+        request.id,
+        request.userId,
+      );
+
+      res.json(adjustment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("LOA early return error:", error);
+      res.status(500).json({ message: "Failed to end LOA early" });
+    }
+  });
+
+  // ========== Request Comment Routes ==========
+
+  for (const requestType of ["transfer", "loa"] as const) {
+    const basePath = requestType === "transfer" ? "/api/transfer-requests" : "/api/loa-requests";
+
+    // Get a request's comment thread (oldest first)
+    app.get(`${basePath}/:id/comments`, requireAuth, async (req: Request, res: Response) => {
+      try {
+        const user = await storage.getUser(req.session.userId!);
+        if (!user) {
+          return res.status(401).json({ message: "Unauthorized" });
+        }
+
+        const request = await getCommentableRequest(user, requestType, req.params.id);
+        if (!request) {
+          return res.status(404).json({ message: "Request not found" });
+        }
+
+        const comments = await storage.getRequestComments(requestType, request.id);
+        res.json(comments);
+      } catch (error) {
+        console.error("Get request comments error:", error);
+        res.status(500).json({ message: "Failed to get comments" });
+      }
+    });
+
+    // Comment on a pending request (requester or reviewers)
+    app.post(`${basePath}/:id/comments`, requireAuth, async (req: Request, res: Response) => {
+      try {
+        const author = await storage.getUser(req.session.userId!);
+        if (!author) {
+          return res.status(401).json({ message: "Unauthorized" });
+        }
+
+        const request = await getCommentableRequest(author, requestType, req.params.id);
+        if (!request) {
+          return res.status(404).json({ message: "Request not found" });
+        }
+
+        if (request.status !== "Pending") {
+          return res.status(409).json({ message: `Request is already ${request.status.toLowerCase()}; comments are closed` });
+        }
+
+        const validatedData = insertRequestCommentSchema.parse({
+          body: req.body.body,
+          requestType,
+          requestId: request.id,
+          authorId: author.id,
+        });
+
+        const comment = await storage.createRequestComment(validatedData);
+        await notifyCommentParticipants(requestType, request, author, comment.body);
+
+        res.json(comment);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+        }
+        console.error("Create request comment error:", error);
+        res.status(500).json({ message: "Failed to post comment" });
+      }
+    });
+  }
+
+  // ========== Notification Routes ==========
+
+  // Get user's notifications
+  app.get("/api/notifications", requireSession, async (req: Request, res: Response) => {
+    try {
+      const notifications = await storage.getNotificationsByUser(req.session.userId!);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Get notifications error:", error);
+      res.status(500).json({ message: "Failed to get notifications" });
+    }
+  });
+
+  // Mark notification as read
+  app.patch("/api/notifications/:id/read", requireSession, async (req: Request, res: Response) => {
+    try {
+      await storage.markNotificationAsRead(req.params.id);
+      portalEvents.emit("notifications.read", { userId: req.session.userId! });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Mark notification as read error:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  // Mark all notifications as read
+  app.post("/api/notifications/mark-all-read", requireSession, async (req: Request, res: Response) => {
+    try {
+      await storage.markAllNotificationsAsRead(req.session.userId!);
+      portalEvents.emit("notifications.read", { userId: req.session.userId! });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Mark all notifications as read error:", error);
+      res.status(500).json({ message: "Failed to mark all notifications as read" });
+    }
+  });
+
+  // ========== Admin Routes ==========
+
+  // Search transfer requests, a page at a time (department reviewers only see transfers
+  // into or out of their department)
+  app.get("/api/admin/transfer-requests", requirePermission("transfer.review"), async (req: Request, res: Response) => {
+    try {
+      const query = requestQuerySchema.parse(req.query);
+
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const reach = getPermissionReach(reviewer, "transfer.review");
+      if (!reach) {
+        return res.status(403).json({ message: "Forbidden: missing permission transfer.review" });
+      }
+
+      const scopeDepartment = reach.scope === "global" ? undefined : reach.department;
+      const page = await storage.queryTransferRequests(query, scopeDepartment);
+      res.json({ ...page, items: await withTransferProfiles(page.items) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request query", errors: error.errors });
+      }
+      console.error("Get all transfer requests error:", error);
+      res.status(500).json({ message: "Failed to get transfer requests" });
+    }
+  });
+
+  // Get the pending transfers the signed-in reviewer can act on at their current stage
+  app.get("/api/admin/transfer-requests/queue", requirePermission("transfer.review"), async (req: Request, res: Response) => {
+    try {
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const pending = await storage.getPendingTransferRequests();
+      const queue = pending.filter((request) => {
+        const stage = getTransferReviewStage(request);
+        return stage !== null && canReviewTransferStage(reviewer, request, stage);
+      });
+
+      res.json(await withTransferProfiles(queue));
+    } catch (error) {
+      console.error("Get transfer review queue error:", error);
+      res.status(500).json({ message: "Failed to get transfer review queue" });
+    }
+  });
+
+  // Review the current stage of a transfer request (release, then acceptance)
+  app.patch("/api/admin/transfer-requests/:id", requirePermission("transfer.review"), async (req: Request, res: Response) => {
+    try {
+      const decision = reviewDecisionSchema.parse(req.body);
+
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const outcome = await reviewTransfer(req, reviewer, req.params.id, decision);
+      if (outcome.result !== "updated") {
+        return res.status(REVIEW_OUTCOME_STATUS_CODES[outcome.result]).json({ message: outcome.message });
+      }
+
+      res.json(outcome.request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Update transfer request error:", error);
+      res.status(500).json({ message: "Failed to update transfer request" });
+    }
+  });
+
+  // Approve or reject several transfers at once with a shared note (results per item)
+  app.post("/api/admin/transfer-requests/bulk-review", requirePermission("transfer.review"), async (req: Request, res: Response) => {
+    try {
+      const { ids, ...decision } = bulkReviewSchema.parse(req.body);
+
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { results } = await reviewEach(ids, (id) => reviewTransfer(req, reviewer, id, decision));
+      res.json({ results, counts: countBulkResults(results) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Bulk review transfer requests error:", error);
+      res.status(500).json({ message: "Failed to review transfer requests" });
+    }
+  });
+
+  // Search LOA requests, a page at a time
+  app.get("/api/admin/loa-requests", requirePermission("loa.review"), async (req: Request, res: Response) => {
+    try {
+      const query = requestQuerySchema.parse(req.query);
+      const page = await storage.queryLoaRequests(query);
+      res.json({ ...page, items: await withLoaProfiles(page.items) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request query", errors: error.errors });
+      }
+      console.error("Get all LOA requests error:", error);
+      res.status(500).json({ message: "Failed to get LOA requests" });
+    }
+  });
+
+  // Update LOA request (approve/reject)
+  app.patch("/api/admin/loa-requests/:id", requirePermission("loa.review"), async (req: Request, res: Response) => {
+    try {
+      const decision = reviewDecisionSchema.parse(req.body);
+
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const outcome = await reviewLoa(req, reviewer, req.params.id, decision);
+      if (outcome.result !== "updated") {
+        return res.status(REVIEW_OUTCOME_STATUS_CODES[outcome.result]).json({ message: outcome.message });
+      }
+
+      if (outcome.request.status === "Approved") {
+        await refreshLoaLifecycle();
+      }
+
+      res.json(outcome.request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Update LOA request error:", error);
+      res.status(500).json({ message: "Failed to update LOA request" });
+    }
+  });
+
+  // Approve or reject several LOAs at once with a shared note (results per item)
+  app.post("/api/admin/loa-requests/bulk-review", requirePermission("loa.review"), async (req: Request, res: Response) => {
+    try {
+      const { ids, ...decision } = bulkReviewSchema.parse(req.body);
+
+      const reviewer = await storage.getUser(req.session.userId!);
+      if (!reviewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { results, updated } = await reviewEach(ids, (id) => reviewLoa(req, reviewer, id, decision));
+
+      // One lifecycle run covers every approval in the batch
+      if (updated.some((request) => request.status === "Approved")) {
+        await refreshLoaLifecycle();
+      }
+
+      res.json({ results, counts: countBulkResults(results) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Bulk review LOA requests error:", error);
+      res.status(500).json({ message: "Failed to review LOA requests" });
+    }
+  });
+
+  // Get pending LOA extensions
+  app.get("/api/admin/loa-adjustments", requirePermission("loa.review"), async (_req: Request, res: Response) => {
+    try {
+      const adjustments = await storage.getPendingLoaAdjustments();
+      res.json(adjustments);
+    } catch (error) {
+      console.error("Get LOA adjustments error:", error);
+      res.status(500).json({ message: "Failed to get LOA adjustments" });
+    }
+  });
+
+  // Approve or reject an LOA extension; approval moves the LOA's end date
+  app.patch("/api/admin/loa-adjustments/:id", requirePermission("loa.review"), async (req: Request, res: Response) => {
+    try {
+      const { status, note } = reviewDecisionSchema.parse(req.body);
+
+      const existing = await storage.getLoaAdjustment(req.params.id);
+      if (!existing || existing.type !== "Extension") {
+        return res.status(404).json({ message: "Extension not found" });
+      }
+
+      if (!canTransitionRequest(existing.status, status)) {
+        return res.status(409).json({ message: `Extension is already ${existing.status.toLowerCase()}` });
+      }
+
+      if (existing.userId === req.session.userId) {
+        return res.status(403).json({ message: "Forbidden: you cannot review your own LOA extension" });
+      }
+
+      // Other LOAs may have been approved since the extension was asked for, so the new
+      // end date goes through the policy again (less the notice rule, as on request)
+      if (status === "Approved") {
+        const [request, requester] = await Promise.all([
+          storage.getLoaRequest(existing.loaRequestId),
+          storage.getUser(existing.userId),
+        ]);
+        if (!request || !requester) {
+          return res.status(404).json({ message: "Extension not found" });
+        }
+
+        const violations = (await checkLoaRequestPolicy(requester, { startDate: request.startDate, endDate: existing.requestedEndDate }, request.id))
+          .filter((violation) => violation.code !== "LOA_INSUFFICIENT_NOTICE");
+        if (violations.length > 0) {
+          return res.status(400).json({ message: violations[0].message, code: violations[0].code, errors: violations });
+        }
+      }
+
+      const adjustment = await storage.reviewLoaExtension(existing.id, status, req.session.userId!, note ?? null);
+      if (!adjustment) {
+        return res.status(409).json({ message: "Extension can no longer be reviewed" });
+      }
+
+      await recordAudit(req, {
+        action: "loa.extension_review",
+        entityType: "loa",
+        entityId: adjustment.loaRequestId,
+        before: existing,
+        after: adjustment,
+      });
+
+      if (adjustment.status === "Approved") {
+        await refreshLoaLifecycle();
+      }
+
+      await storage.createNotification({
+        userId: adjustment.userId,
+        message: withReviewNote(`Your LOA extension has been ${status.toLowerCase()}`, status, adjustment.reviewNote),
+        type: `loa_extension_${status.toLowerCase()}`,
+        requestId: adjustment.loaRequestId,
+        requestType: "loa",
+      });
+
+      portalEvents.emit("queue.changed", { queue: "loa_adjustment", requestId: adjustment.id });
+
+      res.json(adjustment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Update LOA adjustment error:", error);
+      res.status(500).json({ message: "Failed to update LOA extension" });
+    }
+  });
+
+  // ========== Coverage Routes ==========
+
+  // Who is away and who is on duty per sub-department, day by day. Department-scoped
+  // viewers get their own department unless they ask for one they can see.
+  app.get("/api/admin/loa-coverage", requirePermission("coverage.view"), async (req: Request, res: Response) => {
+    try {
+      const query = coverageQuerySchema.parse(req.query);
+
+      const viewer = await storage.getUser(req.session.userId!);
+      if (!viewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const reach = getPermissionReach(viewer, "coverage.view");
+      if (!reach) {
+        return res.status(403).json({ message: "Forbidden: missing permission coverage.view" });
+      }
+
+      const department = query.department ?? (reach.scope === "global" ? undefined : reach.department);
+      if (department && !hasPermission(viewer, "coverage.view", department)) {
+        return res.status(403).json({ message: `Forbidden: coverage.view for ${department} required` });
+      }
+
+      const days = Math.ceil((query.to.getTime() - query.from.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+      if (days > MAX_COVERAGE_DAYS) {
+        return res.status(400).json({ message: `Coverage range can span at most ${MAX_COVERAGE_DAYS} days` });
+      }
+
+      const [staff, loas] = await Promise.all([
+        storage.getAllUsers(),
+        storage.getLoaRequestsInRange(query.from, query.to, ["Pending", "Approved"]),
+      ]);
+
+      res.json({
+        from: query.from,
+        to: query.to,
+        departments: buildCoverageReport({ ...query, department }, staff, loas, coverageSettings.get()),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coverage query", errors: error.errors });
+      }
+      console.error("Get LOA coverage error:", error);
+      res.status(500).json({ message: "Failed to get LOA coverage" });
+    }
+  });
+
+  // List calendar feeds (department-scoped viewers only see their department's)
+  app.get("/api/admin/calendar-feeds", requirePermission("coverage.view"), async (req: Request, res: Response) => {
+    try {
+      const viewer = await storage.getUser(req.session.userId!);
+      if (!viewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const feeds = await storage.getCalendarFeedTokens();
+      res.json(feeds
+        .filter((feed) => hasPermission(viewer, "coverage.view", feed.department))
+        .map((feed) => ({ ...feed, url: calendarFeedUrl(feed.token) })));
+    } catch (error) {
+      console.error("Get calendar feeds error:", error);
+      res.status(500).json({ message: "Failed to get calendar feeds" });
+    }
+  });
+
+  // Create a calendar feed token for a department's approved LOAs
+  app.post("/api/admin/calendar-feeds", requirePermission("coverage.view"), async (req: Request, res: Response) => {
+    try {
+      const { department, label } = z.object({
+        department: z.string().min(1),
+        label: z.string().trim().max(100).optional(),
+      }).parse(req.body);
+
+      if (!getDepartment(department)) {
+        return res.status(400).json({ message: "Unknown department" });
+      }
+
+      const viewer = await storage.getUser(req.session.userId!);
+      if (!viewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (!hasPermission(viewer, "coverage.view", department)) {
+        return res.status(403).json({ message: `Forbidden: coverage.view for ${department} required` });
+      }
+
+      const feed = await storage.createCalendarFeedToken(department, label || null, viewer.id);
+      await recordAudit(req, {
+        actor: viewer,
+        action: "calendar_feed.create",
+        entityType: "calendar_feed",
+        entityId: feed.id,
+        after: { department: feed.department, label: feed.label },
+      });
+
+      res.json({ ...feed, url: calendarFeedUrl(feed.token) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Create calendar feed error:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  // Revoke a calendar feed token
+  app.delete("/api/admin/calendar-feeds/:id", requirePermission("coverage.view"), async (req: Request, res: Response) => {
+    try {
+      const viewer = await storage.getUser(req.session.userId!);
+      if (!viewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const existing = (await storage.getCalendarFeedTokens()).find((feed) => feed.id === req.params.id);
+      if (!existing || !hasPermission(viewer, "coverage.view", existing.department)) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const feed = await storage.revokeCalendarFeedToken(existing.id);
+      if (!feed) {
+        return res.status(409).json({ message: "Calendar feed is already revoked" });
+      }
+
+      await recordAudit(req, {
+        actor: viewer,
+        action: "calendar_feed.revoke",
+        entityType: "calendar_feed",
+        entityId: feed.id,
+        before: { department: existing.department, label: existing.label },
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Revoke calendar feed error:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  // Re-check every user's group rank now instead of waiting for the scheduled sync
+  app.post("/api/admin/rank-sync", requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      if (isRankSyncRunning()) {
+        return res.status(409).json({ message: "A rank sync is already running" });
+      }
+
+      const summary = await syncAllUserRanks();
+      await recordAudit(req, {
+        action: "users.rank_sync",
+        entityType: "users",
+        after: summary,
+      });
+      res.json(summary);
+    } catch (error) {
+      console.error("Rank sync error:", error);
+      res.status(500).json({ message: "Failed to sync ranks" });
+    }
+  });
+
+  // ========== User Management Routes ==========
+
+  // Move a user to another department or sub-department without a transfer request
+  app.patch("/api/admin/users/:id/assignment", requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const assignment = userAssignmentSchema.parse(req.body);
+
+      const managed = await getManagedUser(req);
+      if ("status" in managed) {
+        return res.status(managed.status).json({ message: managed.message });
+      }
+      const { admin, target } = managed;
+
+      const placementError = validatePlacement(assignment.department, assignment.subDepartment);
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+
+      if (target.department === assignment.department && target.subDepartment === assignment.subDepartment) {
+        return res.status(409).json({ message: `User is already in ${placementLabel(assignment.department, assignment.subDepartment)}` });
+      }
+
+      const headcountError = await checkHeadcount(target, assignment.department, assignment.subDepartment);
+      if (headcountError) {
+        return res.status(409).json({ message: headcountError });
+      }
+
+      const user = await storage.reassignUser(target.id, assignment, admin.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        actor: admin,
+        action: "user.reassign",
+        entityType: "user",
+        entityId: user.id,
+        before: { department: target.department, subDepartment: target.subDepartment },
+        after: assignment,
+      });
+
+      await storage.createNotification({
+        userId: user.id,
+        message: `You have been moved to ${placementLabel(user.department, user.subDepartment)} by ${admin.robloxUsername}`,
+        type: "user_reassigned",
+        requestId: user.id,
+        requestType: "user",
+      });
+
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Reassign user error:", error);
+      res.status(500).json({ message: "Failed to reassign user" });
+    }
+  });
+
+  // Block a user's portal access, until a date or until reinstated, and sign them out
+  app.post("/api/admin/users/:id/suspend", requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const suspension = userSuspensionSchema.parse(req.body);
+
+      const managed = await getManagedUser(req);
+      if ("status" in managed) {
+        return res.status(managed.status).json({ message: managed.message });
+      }
+      const { admin, target } = managed;
+
+      const user = await storage.suspendUser(target.id, suspension, admin.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { message } = suspensionResponse(user);
+      // Waiting for them when they are reinstated
+      await storage.createNotification({
+        userId: user.id,
+        message,
+        type: "account_suspended",
+        requestId: user.id,
+        requestType: "user",
+      });
+      const sessionsEnded = await storage.destroySessionsForUser(user.id, message);
+
+      await recordAudit(req, {
+        actor: admin,
+        action: "user.suspend",
+        entityType: "user",
+        entityId: user.id,
+        before: { suspendedAt: target.suspendedAt, suspendedUntil: target.suspendedUntil, suspensionReason: target.suspensionReason },
+        after: { suspendedUntil: user.suspendedUntil, suspensionReason: user.suspensionReason, sessionsEnded },
+      });
+
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Suspend user error:", error);
+      res.status(500).json({ message: "Failed to suspend user" });
+    }
+  });
+
+  // Lift a suspension early
+  app.post("/api/admin/users/:id/reinstate", requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const managed = await getManagedUser(req);
+      if ("status" in managed) {
+        return res.status(managed.status).json({ message: managed.message });
+      }
+      const { admin, target } = managed;
+
+      if (!isSuspended(target)) {
+        return res.status(409).json({ message: "User is not suspended" });
+      }
+
+      const user = await storage.reinstateUser(target.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        actor: admin,
+        action: "user.reinstate",
+        entityType: "user",
+        entityId: user.id,
+        before: { suspendedAt: target.suspendedAt, suspendedUntil: target.suspendedUntil, suspensionReason: target.suspensionReason },
+      });
+
+      await storage.createNotification({
+        userId: user.id,
+        message: `Your portal access has been reinstated by ${admin.robloxUsername}`,
+        type: "account_reinstated",
+        requestId: user.id,
+        requestType: "user",
+      });
+
+      res.json(user);
+    } catch (error) {
+      console.error("Reinstate user error:", error);
+      res.status(500).json({ message: "Failed to reinstate user" });
+    }
+  });
+
+  // Scrub a user's Roblox identity but keep their history, and sign them out
+  app.post("/api/admin/users/:id/anonymise", requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const managed = await getManagedUser(req);
+      if ("status" in managed) {
+        return res.status(managed.status).json({ message: managed.message });
+      }
+      const { admin, target } = managed;
+
+      if (target.anonymisedAt) {
+        return res.status(409).json({ message: "User has already been anonymised" });
+      }
+
+      const user = await storage.anonymiseUser(target.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const message = "Your portal account has been anonymised by an administrator";
+      await storage.createNotification({
+        userId: user.id,
+        message,
+        type: "account_anonymised",
+        requestId: user.id,
+        requestType: "user",
+      });
+      const sessionsEnded = await storage.destroySessionsForUser(user.id, message);
+
+      await recordAudit(req, {
+        actor: admin,
+        action: "user.anonymise",
+        entityType: "user",
+        entityId: user.id,
+        // The old identity is left out on purpose; the id is enough to trace the account
+        after: { sessionsEnded },
+      });
+
+      res.json(user);
+    } catch (error) {
+      console.error("Anonymise user error:", error);
+      res.status(500).json({ message: "Failed to anonymise user" });
+    }
+  });
+
+  // Delete a user and everything they own. Their notifications go with them, so open tabs
+  // are told as they are disconnected.
+  app.delete("/api/admin/users/:id", requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const managed = await getManagedUser(req);
+      if ("status" in managed) {
+        return res.status(managed.status).json({ message: managed.message });
+      }
+      const { admin, target } = managed;
+
+      await storage.destroySessionsForUser(target.id, "Your portal account has been deleted by an administrator");
+
+      const user = await storage.deleteUser(target.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        actor: admin,
+        action: "user.delete",
+        entityType: "user",
+        entityId: user.id,
+        before: user,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete user error:", error);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // ========== Export Routes ==========
+
+  // Export transfer requests as CSV or JSON, with the admin list's filters and scoping
+  app.get("/api/admin/exports/transfer-requests", requirePermission("transfer.review"), async (req: Request, res: Response) => {
+    try {
+      const { format, columns, ...filters } = requestExportQuerySchema.parse(req.query);
+      const selected = selectColumns(TRANSFER_EXPORT_COLUMNS, columns);
+
+      const viewer = await storage.getUser(req.session.userId!);
+      if (!viewer) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const reach = getPermissionReach(viewer, "transfer.review");
+      if (!reach) {
+        return res.status(403).json({ message: "Forbidden: missing permission transfer.review" });
+      }
+
+      const scopeDepartment = reach.scope === "global" ? undefined : reach.department;
+      await recordAudit(req, {
+        actor: viewer,
+        action: "export.transfer_requests",
+        entityType: "transfer",
+        after: { format, columns: selected.map((column) => column.key), filters, scopeDepartment },
+      });
+
+      await streamExport(res, format, "transfer-requests", selected, storage.iterateTransferRequests(filters, scopeDepartment));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export query", errors: error.errors });
+      }
+      if (error instanceof ExportColumnError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Export transfer requests error:", error);
+      // Once rows are streaming the status is already sent; cut the download short instead
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to export transfer requests" });
+    }
+  });
+
+  // Export LOA requests as CSV or JSON, with the admin list's filters
+  app.get("/api/admin/exports/loa-requests", requirePermission("loa.review"), async (req: Request, res: Response) => {
+    try {
+      const { format, columns, ...filters } = requestExportQuerySchema.parse(req.query);
+      const selected = selectColumns(LOA_EXPORT_COLUMNS, columns);
+
+      await recordAudit(req, {
+        action: "export.loa_requests",
+        entityType: "loa",
+        after: { format, columns: selected.map((column) => column.key), filters },
+      });
+
+      await streamExport(res, format, "loa-requests", selected, storage.iterateLoaRequests(filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export query", errors: error.errors });
+      }
+      if (error instanceof ExportColumnError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Export LOA requests error:", error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to export LOA requests" });
+    }
+  });
+
+  // Export the staff roster as CSV or JSON
+  app.get("/api/admin/exports/users", requirePermission("users.manage"), async (req: Request, res: Response) => {
+    try {
+      const { format, columns, ...filters } = rosterExportQuerySchema.parse(req.query);
+      const selected = selectColumns(ROSTER_EXPORT_COLUMNS, columns);
+
+      await recordAudit(req, {
+        action: "export.users",
+        entityType: "user",
+        after: { format, columns: selected.map((column) => column.key), filters },
+      });
+
+      await streamExport(res, format, "staff-roster", selected, storage.iterateUsers(filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export query", errors: error.errors });
+      }
+      if (error instanceof ExportColumnError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Export users error:", error);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to export users" });
+    }
+  });
+
+  // ========== Audit Routes ==========
+
+  // Search the audit trail (newest first)
+  app.get("/api/admin/audit", requirePermission("audit.view"), async (req: Request, res: Response) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const events = await storage.getAuditEvents(query);
+      res.json(events);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit query", errors: error.errors });
+      }
+      console.error("Get audit events error:", error);
+      res.status(500).json({ message: "Failed to get audit events" });
+    }
+  });
+
+  // ========== Calendar Feed Routes (token-protected, no session) ==========
+
+  // Approved LOAs for the token's department, from a month ago through the next year
+  app.get("/api/calendar/loa.ics", async (req: Request, res: Response) => {
+    try {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const feed = token ? await storage.getActiveCalendarFeedToken(token) : undefined;
+      if (!feed) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const to = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+      const loas = (await storage.getLoaRequestsInRange(from, to, ["Approved"]))
+        .filter(({ user }) => user.department === feed.department);
+
+      res
+        .status(200)
+        .set({
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": `inline; filename="loa-${feed.department.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.ics"`,
+          "Cache-Control": "private, max-age=300",
+        })
+        .send(renderLoaCalendar(feed.department, loas));
+    } catch (error) {
+      console.error("Get calendar feed error:", error);
+      res.status(500).json({ message: "Failed to get calendar feed" });
+    }
+  });
+
+  // ========== Discord Routes ==========
+
+  // List Discord webhook targets
+  app.get("/api/admin/discord-webhooks", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const webhooks = await storage.getDiscordWebhooks();
+      res.json(webhooks);
+    } catch (error) {
+      console.error("Get Discord webhooks error:", error);
+      res.status(500).json({ message: "Failed to get Discord webhooks" });
+    }
+  });
+
+  // Add a webhook for a department, or for the admin channel when department is omitted
+  app.post("/api/admin/discord-webhooks", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertDiscordWebhookSchema.parse(req.body);
+
+      const urlError = validateWebhookUrl(validatedData.url, app.get("env") === "production");
+      if (urlError) {
+        return res.status(400).json({ message: urlError });
+      }
+
+      if (validatedData.department && !getDepartment(validatedData.department)) {
+        return res.status(400).json({ message: "Unknown department" });
+      }
+
+      const webhook = await storage.createDiscordWebhook(validatedData, req.session.userId!);
+      await recordAudit(req, {
+        action: "discord_webhook.create",
+        entityType: "discord_webhook",
+        entityId: webhook.id,
+        after: { department: webhook.department, label: webhook.label, enabled: webhook.enabled },
+      });
+
+      res.json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Create Discord webhook error:", error);
+      res.status(500).json({ message: "Failed to create Discord webhook" });
+    }
+  });
+
+  // Edit a webhook (URL, department, label or enabled)
+  app.patch("/api/admin/discord-webhooks/:id", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = updateDiscordWebhookSchema.parse(req.body);
+      if (Object.keys(validatedData).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      if (validatedData.url) {
+        const urlError = validateWebhookUrl(validatedData.url, app.get("env") === "production");
+        if (urlError) {
+          return res.status(400).json({ message: urlError });
+        }
+      }
+
+      if (validatedData.department && !getDepartment(validatedData.department)) {
+        return res.status(400).json({ message: "Unknown department" });
+      }
+
+      const existing = await storage.getDiscordWebhook(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Discord webhook not found" });
+      }
+
+      const webhook = await storage.updateDiscordWebhook(existing.id, validatedData);
+      if (!webhook) {
+        return res.status(404).json({ message: "Discord webhook not found" });
+      }
+
+      await recordAudit(req, {
+        action: "discord_webhook.update",
+        entityType: "discord_webhook",
+        entityId: webhook.id,
+        before: { department: existing.department, label: existing.label, enabled: existing.enabled },
+        after: {
+          department: webhook.department,
+          label: webhook.label,
+          enabled: webhook.enabled,
+          urlChanged: webhook.url !== existing.url,
+        },
+      });
+
+      res.json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      console.error("Update Discord webhook error:", error);
+      res.status(500).json({ message: "Failed to update Discord webhook" });
+    }
+  });
+
+  // Remove a webhook (its undelivered messages go with it)
+  app.delete("/api/admin/discord-webhooks/:id", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const webhook = await storage.deleteDiscordWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Discord webhook not found" });
+      }
+
+      await recordAudit(req, {
+        action: "discord_webhook.delete",
+        entityType: "discord_webhook",
+        entityId: webhook.id,
+        before: { department: webhook.department, label: webhook.label, enabled: webhook.enabled },
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete Discord webhook error:", error);
+      res.status(500).json({ message: "Failed to delete Discord webhook" });
+    }
+  });
+
+  // Post a test embed to a webhook right away and report whether Discord accepted it
+  app.post("/api/admin/discord-webhooks/:id/test", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const sender = await storage.getUser(req.session.userId!);
+      if (!sender) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const webhook = await storage.getDiscordWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Discord webhook not found" });
+      }
+
+      await sendTestMessage(webhook, sender);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof DiscordDeliveryError) {
+        return res.status(502).json({ message: error.message });
+      }
+      console.error("Test Discord webhook error:", error);
+      res.status(500).json({ message: "Failed to send test message" });
+    }
+  });
+
+  // Inspect the delivery outbox (pending by default, newest first)
+  app.get("/api/admin/discord-outbox", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const { status, limit } = z.object({
+        status: z.enum(["pending", "delivered", "failed"]).default("pending"),
+        limit: z.coerce.number().int().min(1).max(500).default(100),
+      }).parse(req.query);
+
+      const messages = await storage.getDiscordMessages(status, limit);
+      res.json(messages);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid outbox query", errors: error.errors });
+      }
+      console.error("Get Discord outbox error:", error);
+      res.status(500).json({ message: "Failed to get Discord outbox" });
+    }
+  });
+
+  // Queue a message that was given up on for another round of delivery attempts
+  app.post("/api/admin/discord-outbox/:id/retry", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const message = await storage.retryDiscordMessage(req.params.id);
+      if (!message) {
+        return res.status(404).json({ message: "No failed message with that id" });
+      }
+
+      await recordAudit(req, {
+        action: "discord_outbox.retry",
+        entityType: "discord_outbox",
+        entityId: message.id,
+      });
+
+      res.json(message);
+    } catch (error) {
+      console.error("Retry Discord message error:", error);
+      res.status(500).json({ message: "Failed to retry Discord message" });
+    }
+  });
+
+  // ========== Settings Routes ==========
+
+  // Get a settings document ("roblox", "loa_policy", ...)
+  app.get("/api/admin/settings/:key", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    const setting = getSetting(req.params.key);
+    if (!setting) {
+      return res.status(404).json({ message: "Unknown setting" });
+    }
+    res.json(setting.get());
+  });
+
+  // Replace a settings document (applies immediately)
+  app.put("/api/admin/settings/:key", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const setting = getSetting(req.params.key);
+      if (!setting) {
+        return res.status(404).json({ message: "Unknown setting" });
+      }
+
+      const before = setting.get();
+      const value = await setting.update(req.body, req.session.userId!);
+      await recordAudit(req, {
+        action: "settings.update",
+        entityType: "settings",
+        entityId: setting.key,
+        before,
+        after: value,
+      });
+      res.json(value);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid settings", errors: error.errors });
+      }
+      console.error("Update settings error:", error);
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Reload all settings from the database (e.g. after editing portal_settings directly)
+  app.post("/api/admin/settings/reload", requirePermission("settings.manage"), async (req: Request, res: Response) => {
+    try {
+      const settings = await loadAllSettings();
+      await recordAudit(req, {
+        action: "settings.reload",
+        entityType: "settings",
+        after: settings,
+      });
+      res.json(settings);
+    } catch (error) {
+      console.error("Reload settings error:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to reload settings" });
+    }
+  });
+
+  // ========== Fake Roblox Routes (ROBLOX_CLIENT=fake, outside production only) ==========
+
+  const robloxClient = roblox.getRobloxClient();
+  if (robloxClient instanceof FakeRobloxClient && app.get("env") !== "production") {
+    // Create or replace a scripted Roblox user (About Me text and group roles included)
+    app.put("/api/dev/roblox/users", (req: Request, res: Response) => {
+      try {
+        res.json(robloxClient.setUser(fakeRobloxUserSchema.parse(req.body)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid fake Roblox user", errors: error.errors });
+        }
+        res.status(500).json({ message: "Failed to set fake Roblox user" });
+      }
+    });
+
+    // Set a scripted user's About Me text, e.g. to paste in a verification code
+    app.put("/api/dev/roblox/users/:username/about-me", (req: Request, res: Response) => {
+      const user = robloxClient.findUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ message: "Roblox user not found" });
+      }
+      robloxClient.setAboutMe(user.id, String(req.body.aboutMe ?? ""));
+      res.json({ success: true });
+    });
+  }
+
+  // ========== Discord Stand-in Routes (outside production only) ==========
+
+  // A local webhook endpoint that records what the portal posts, so deliveries can be
+  // exercised without Discord. Point a webhook at /api/dev/discord/webhook.
+  if (app.get("env") !== "production") {
+    const received: { receivedAt: string; body: unknown }[] = [];
+    let failWithStatus: number | null = null;
+
+    app.post("/api/dev/discord/webhook", (req: Request, res: Response) => {
+      if (failWithStatus) {
+        return res.status(failWithStatus).json({ message: "Simulated Discord failure", retry_after: 1 });
+      }
+      received.push({ receivedAt: new Date().toISOString(), body: req.body });
+      res.status(204).end();
+    });
+
+    // Everything the stand-in has received, oldest first
+    app.get("/api/dev/discord/webhook", (_req: Request, res: Response) => {
+      res.json(received);
+    });
+
+    app.delete("/api/dev/discord/webhook", (_req: Request, res: Response) => {
+      received.length = 0;
+      res.json({ success: true });
+    });
+
+    // Make the stand-in answer with an error status (e.g. 503 or 429); null restores it
+    app.put("/api/dev/discord/webhook/failure", (req: Request, res: Response) => {
+      const parsed = z.object({ status: z.number().int().min(400).max(599).nullable() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid failure status", errors: parsed.error.errors });
+      }
+      failWithStatus = parsed.data.status;
+      res.json({ status: failWithStatus });
+    });
+  }
+
   const httpServer = createServer(app);
+  attachRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
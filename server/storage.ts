@@ -4,19 +4,220 @@ import {
   transferRequests,
   loaRequests,
   notifications,
+  departmentAssignments,
+  portalSettings,
+  rankChanges,
+  auditEvents,
+  calendarFeedTokens,
+  loaAdjustments,
+  discordWebhooks,
+  discordOutbox,
+  requestComments,
+  onboardingClaims,
+  departments,
+  subDepartments,
   type User,
   type InsertUser,
+  type UserAssignment,
+  type UserSuspension,
   type VerificationCode,
   type InsertVerificationCode,
   type TransferRequest,
   type InsertTransferRequest,
+  type TransferReviewStage,
+  type UpdateTransferRequest,
+  type UpdateLoaRequest,
+  type RequestStatus,
+  requestStatusesAllowingTransitionTo,
   type LoaRequest,
   type InsertLoaRequest,
   type Notification,
   type InsertNotification,
+  type DepartmentAssignment,
+  type PortalSetting,
+  type RankChange,
+  type InsertRankChange,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditQuery,
+  type CalendarFeedToken,
+  type LoaAdjustment,
+  type InsertLoaAdjustment,
+  type DiscordWebhook,
+  type InsertDiscordWebhook,
+  type UpdateDiscordWebhook,
+  type DiscordOutboxMessage,
+  type InsertDiscordOutboxMessage,
+  type RequestQuery,
+  type RequestFilters,
+  type RosterFilters,
+  type StaffDirectoryQuery,
+  type StaffMemberRow,
+  type RequestPage,
+  type TransferRequestWithUsers,
+  type LoaRequestWithUsers,
+  type RequestComment,
+  type InsertRequestComment,
+  type RequestCommentWithAuthor,
+  type OnboardingClaim,
+  type OnboardingClaimWithUsers,
+  type Department,
+  type SubDepartment,
+  type InsertDepartment,
+  type UpdateDepartment,
+  type InsertSubDepartment,
+  type UpdateSubDepartment,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { portalEvents } from "./events";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { eq, and, or, desc, asc, sql, gt, gte, lte, ilike, inArray, isNull, isNotNull, type SQL } from "drizzle-orm";
+
+// Requester and reviewer columns embedded in request payloads
+const requestUserColumns = {
+  id: true,
+  robloxUsername: true,
+  robloxUserId: true,
+  rank: true,
+  rankId: true,
+  department: true,
+  subDepartment: true,
+} as const;
+
+const transferRequestUsers = {
+  user: { columns: requestUserColumns },
+  reviewer: { columns: requestUserColumns },
+  releaseReviewer: { columns: requestUserColumns },
+  acceptanceReviewer: { columns: requestUserColumns },
+} as const;
+
+// Staff directory columns; the rest of the user row stays private to admins
+const staffMemberColumns = {
+  id: users.id,
+  robloxUsername: users.robloxUsername,
+  robloxUserId: users.robloxUserId,
+  rank: users.rank,
+  rankId: users.rankId,
+  department: users.department,
+  subDepartment: users.subDepartment,
+  onLeave: users.onLeave,
+  onLeaveUntil: users.onLeaveUntil,
+  lastLogin: users.lastLogin,
+};
+
+const loaRequestUsers = {
+  user: { columns: requestUserColumns },
+  reviewer: { columns: requestUserColumns },
+} as const;
+
+// Keyset pagination: the cursor is the id of the last row on the previous page, and the
+// next page continues after that row in (sort column, id) order. Comparing against the
+// row itself keeps Postgres' microsecond timestamps exact. The cursor row is read under
+// its own alias because relational queries re-alias the outer table's columns.
+function afterCursor(table: PgTable, sortColumn: PgColumn, idColumn: PgColumn, cursor: string, order: "asc" | "desc"): SQL {
+  const comparison = order === "asc" ? sql.raw(">") : sql.raw("<");
+  const sortName = sql.identifier(sortColumn.name);
+  const idName = sql.identifier(idColumn.name);
+  return sql`(${sortColumn}, ${idColumn}) ${comparison} (SELECT cursor_row.${sortName}, cursor_row.${idName} FROM ${table} cursor_row WHERE cursor_row.${idName} = ${cursor})`;
+}
+
+// Department-scoped reviewers pass scopeDepartment to only see transfers into or out of it
+function transferRequestFilters(filters: RequestFilters, scopeDepartment?: string): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [];
+  if (scopeDepartment) {
+    conditions.push(or(
+      eq(transferRequests.currentDepartment, scopeDepartment),
+      eq(transferRequests.requestedDepartment, scopeDepartment),
+    ));
+  }
+  if (filters.status) conditions.push(eq(transferRequests.status, filters.status));
+  if (filters.department) {
+    conditions.push(or(
+      eq(transferRequests.currentDepartment, filters.department),
+      eq(transferRequests.requestedDepartment, filters.department),
+    ));
+  }
+  if (filters.subDepartment) {
+    conditions.push(or(
+      eq(transferRequests.currentSubDepartment, filters.subDepartment),
+      eq(transferRequests.requestedSubDepartment, filters.subDepartment),
+    ));
+  }
+  if (filters.requesterId) conditions.push(eq(transferRequests.userId, filters.requesterId));
+  if (filters.reviewerId) {
+    conditions.push(or(
+      eq(transferRequests.reviewedBy, filters.reviewerId),
+      eq(transferRequests.releaseReviewedBy, filters.reviewerId),
+      eq(transferRequests.acceptanceReviewedBy, filters.reviewerId),
+    ));
+  }
+  if (filters.createdFrom) conditions.push(gte(transferRequests.createdAt, filters.createdFrom));
+  if (filters.createdTo) conditions.push(lte(transferRequests.createdAt, filters.createdTo));
+  if (filters.reviewedFrom) conditions.push(gte(transferRequests.reviewedAt, filters.reviewedFrom));
+  if (filters.reviewedTo) conditions.push(lte(transferRequests.reviewedAt, filters.reviewedTo));
+
+  // Sorting by review date leaves out requests nobody has reviewed yet
+  if (filters.sort === "reviewedAt") conditions.push(isNotNull(transferRequests.reviewedAt));
+
+  return conditions;
+}
+
+function loaRequestFilters(filters: RequestFilters): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [];
+  if (filters.status) conditions.push(eq(loaRequests.status, filters.status));
+  if (filters.department || filters.subDepartment) {
+    // LOAs are filed under the requester's current department
+    const requesters = db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(
+        filters.department ? eq(users.department, filters.department) : undefined,
+        filters.subDepartment ? eq(users.subDepartment, filters.subDepartment) : undefined,
+      ));
+    conditions.push(inArray(loaRequests.userId, requesters));
+  }
+  if (filters.requesterId) conditions.push(eq(loaRequests.userId, filters.requesterId));
+  if (filters.reviewerId) conditions.push(eq(loaRequests.reviewedBy, filters.reviewerId));
+  if (filters.createdFrom) conditions.push(gte(loaRequests.createdAt, filters.createdFrom));
+  if (filters.createdTo) conditions.push(lte(loaRequests.createdAt, filters.createdTo));
+  if (filters.reviewedFrom) conditions.push(gte(loaRequests.reviewedAt, filters.reviewedFrom));
+  if (filters.reviewedTo) conditions.push(lte(loaRequests.reviewedAt, filters.reviewedTo));
+
+  // Sorting by review date leaves out requests nobody has reviewed yet
+  if (filters.sort === "reviewedAt") conditions.push(isNotNull(loaRequests.reviewedAt));
+
+  return conditions;
+}
+
+// Escapes LIKE wildcards so a search matches the text as typed
+function likeContains(text: string) {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function rosterFilters(filters: RosterFilters): (SQL | undefined)[] {
+  return [
+    filters.department ? eq(users.department, filters.department) : undefined,
+    filters.subDepartment ? eq(users.subDepartment, filters.subDepartment) : undefined,
+    filters.minRankId !== undefined ? gte(users.rankId, filters.minRankId) : undefined,
+    filters.maxRankId !== undefined ? lte(users.rankId, filters.maxRankId) : undefined,
+    filters.onLeave !== undefined ? eq(users.onLeave, filters.onLeave) : undefined,
+    filters.search ? ilike(users.robloxUsername, likeContains(filters.search)) : undefined,
+  ];
+}
+
+// Exports read this many rows per query, so large histories never sit in memory at once
+const EXPORT_BATCH_SIZE = 500;
+
+// Queries fetch one row more than the page size to learn whether another page follows
+function toPage<T extends { id: string }>(rows: T[], total: number, limit: number): RequestPage<T> {
+  const items = rows.slice(0, limit);
+  return {
+    items,
+    total,
+    nextCursor: rows.length > limit ? items[items.length - 1].id : null,
+  };
+}
 
 export interface IStorage {
   // User operations
@@ -24,7 +225,18 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByRobloxId(robloxUserId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  iterateUsers(filters: RosterFilters): AsyncGenerator<User[]>;
+  queryStaffDirectory(query: StaffDirectoryQuery): Promise<RequestPage<StaffMemberRow>>;
+  getStaffMembers(department?: string): Promise<StaffMemberRow[]>;
   updateUser(id: string, data: Partial<User>): Promise<User | undefined>;
+  setUserRank(id: string, rank: string, rankId: number): Promise<User | undefined>;
+  reassignUser(id: string, assignment: UserAssignment, assignedBy: string): Promise<User | undefined>;
+  suspendUser(id: string, suspension: UserSuspension, suspendedBy: string): Promise<User | undefined>;
+  reinstateUser(id: string): Promise<User | undefined>;
+  anonymiseUser(id: string): Promise<User | undefined>;
+  deleteUser(id: string): Promise<User | undefined>;
+  destroySessionsForUser(userId: string, reason?: string): Promise<number>;
 
   // Verification code operations
   createVerificationCode(code: InsertVerificationCode): Promise<VerificationCode>;
@@ -33,22 +245,112 @@ export interface IStorage {
   markCodeAsUsed(code: string): Promise<void>;
 
   // Transfer request operations
-  createTransferRequest(request: InsertTransferRequest): Promise<TransferRequest>;
-  getTransferRequestsByUser(userId: string): Promise<TransferRequest[]>;
-  getAllTransferRequests(): Promise<TransferRequest[]>;
-  updateTransferRequest(id: string, status: string, reviewedBy: string): Promise<TransferRequest | undefined>;
+  createTransferRequest(request: InsertTransferRequest): Promise<TransferRequest | undefined>;
+  getTransferRequest(id: string): Promise<TransferRequest | undefined>;
+  getTransferRequestsByUser(userId: string): Promise<TransferRequestWithUsers[]>;
+  queryTransferRequests(query: RequestQuery, scopeDepartment?: string): Promise<RequestPage<TransferRequestWithUsers>>;
+  getPendingTransferRequests(): Promise<TransferRequestWithUsers[]>;
+  iterateTransferRequests(filters: RequestFilters, scopeDepartment?: string): AsyncGenerator<TransferRequestWithUsers[]>;
+  reviewTransferStage(id: string, stage: TransferReviewStage, status: RequestStatus, reviewedBy: string, note: string | null): Promise<TransferRequest | undefined>;
+  updateTransferRequestDetails(id: string, userId: string, data: UpdateTransferRequest): Promise<TransferRequest | undefined>;
+  withdrawTransferRequest(id: string, userId: string): Promise<TransferRequest | undefined>;
 
   // LOA request operations
   createLoaRequest(request: InsertLoaRequest): Promise<LoaRequest>;
-  getLoaRequestsByUser(userId: string): Promise<LoaRequest[]>;
-  getAllLoaRequests(): Promise<LoaRequest[]>;
-  updateLoaRequest(id: string, status: string, reviewedBy: string): Promise<LoaRequest | undefined>;
+  getLoaRequest(id: string): Promise<LoaRequest | undefined>;
+  getLoaRequestsByUser(userId: string): Promise<LoaRequestWithUsers[]>;
+  queryLoaRequests(query: RequestQuery): Promise<RequestPage<LoaRequestWithUsers>>;
+  iterateLoaRequests(filters: RequestFilters): AsyncGenerator<LoaRequestWithUsers[]>;
+  updateLoaRequest(id: string, status: RequestStatus, reviewedBy: string, note: string | null): Promise<LoaRequest | undefined>;
+  updateLoaRequestDetails(id: string, userId: string, data: UpdateLoaRequest): Promise<LoaRequest | undefined>;
+  withdrawLoaRequest(id: string, userId: string): Promise<LoaRequest | undefined>;
+  getLoaRequestsInRange(from: Date, to: Date, statuses: string[]): Promise<{ request: LoaRequest; user: User }[]>;
+
+  // LOA adjustment operations
+  createLoaAdjustment(adjustment: InsertLoaAdjustment): Promise<LoaAdjustment>;
+  getLoaAdjustment(id: string): Promise<LoaAdjustment | undefined>;
+  getLoaAdjustmentsByRequest(loaRequestId: string): Promise<LoaAdjustment[]>;
+  getPendingLoaAdjustments(): Promise<LoaAdjustment[]>;
+  reviewLoaExtension(id: string, status: RequestStatus, reviewedBy: string, note: string | null): Promise<LoaAdjustment | undefined>;
+  recordEarlyReturn(loaRequestId: string, userId: string, returnDate: Date, reason: string | null): Promise<LoaAdjustment | undefined>;
+
+  // LOA lifecycle operations
+  updateLoaPhases(now: Date): Promise<number>;
+  syncOnLeaveFlags(now: Date): Promise<number>;
+  claimLoaReminders(kind: "start" | "end", now: Date, until: Date): Promise<LoaRequest[]>;
 
   // Notification operations
   createNotification(notification: InsertNotification): Promise<Notification>;
   getNotificationsByUser(userId: string): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
   markNotificationAsRead(id: string): Promise<void>;
   markAllNotificationsAsRead(userId: string): Promise<void>;
+
+  // Request comment operations
+  createRequestComment(comment: InsertRequestComment): Promise<RequestComment>;
+  getRequestComments(requestType: string, requestId: string): Promise<RequestCommentWithAuthor[]>;
+
+  // Department assignment operations
+  getDepartmentAssignmentsByUser(userId: string): Promise<DepartmentAssignment[]>;
+
+  // Organisation structure operations
+  getDepartments(): Promise<Department[]>;
+  getSubDepartments(): Promise<SubDepartment[]>;
+  seedOrgStructure(structure: Record<string, string[]>): Promise<void>;
+  createDepartment(data: InsertDepartment): Promise<Department>;
+  updateDepartment(id: string, data: UpdateDepartment): Promise<Department | undefined>;
+  deleteDepartment(id: string): Promise<Department | undefined>;
+  createSubDepartment(departmentId: string, data: InsertSubDepartment): Promise<SubDepartment>;
+  updateSubDepartment(id: string, data: UpdateSubDepartment): Promise<SubDepartment | undefined>;
+  deleteSubDepartment(id: string): Promise<SubDepartment | undefined>;
+  getHeadcounts(): Promise<{ department: string | null; subDepartment: string | null; count: number }[]>;
+  isOrgUnitReferenced(kind: "department" | "subDepartment", id: string): Promise<boolean>;
+
+  // Onboarding claim operations
+  createOnboardingClaim(userId: string, placement: UserAssignment): Promise<OnboardingClaim | undefined>;
+  getOnboardingClaim(id: string): Promise<OnboardingClaim | undefined>;
+  getLatestOnboardingClaim(userId: string): Promise<OnboardingClaim | undefined>;
+  getPendingOnboardingClaims(scopeDepartment?: string): Promise<OnboardingClaimWithUsers[]>;
+  reviewOnboardingClaim(id: string, status: RequestStatus, reviewedBy: string, note: string | null): Promise<OnboardingClaim | undefined>;
+
+  // Portal setting operations
+  getSetting(key: string): Promise<PortalSetting | undefined>;
+  upsertSetting(key: string, value: unknown, updatedBy: string | null): Promise<PortalSetting>;
+
+  // Rank change operations
+  createRankChange(change: InsertRankChange): Promise<RankChange>;
+  getRankChangesByUser(userId: string): Promise<RankChange[]>;
+
+  // Audit operations (append-only)
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(query: AuditQuery): Promise<AuditEvent[]>;
+
+  // Calendar feed token operations
+  createCalendarFeedToken(department: string, label: string | null, createdBy: string): Promise<CalendarFeedToken>;
+  getActiveCalendarFeedToken(token: string): Promise<CalendarFeedToken | undefined>;
+  getCalendarFeedTokens(): Promise<CalendarFeedToken[]>;
+  revokeCalendarFeedToken(id: string): Promise<CalendarFeedToken | undefined>;
+
+  // Discord webhook operations
+  getDiscordWebhooks(): Promise<DiscordWebhook[]>;
+  getDiscordWebhook(id: string): Promise<DiscordWebhook | undefined>;
+  getDiscordWebhookTargets(departments: string[]): Promise<DiscordWebhook[]>;
+  createDiscordWebhook(webhook: InsertDiscordWebhook, createdBy: string): Promise<DiscordWebhook>;
+  updateDiscordWebhook(id: string, data: UpdateDiscordWebhook): Promise<DiscordWebhook | undefined>;
+  deleteDiscordWebhook(id: string): Promise<DiscordWebhook | undefined>;
+
+  // Discord outbox operations
+  enqueueDiscordMessages(messages: InsertDiscordOutboxMessage[]): Promise<DiscordOutboxMessage[]>;
+  claimDiscordMessages(now: Date, leaseUntil: Date, limit: number): Promise<DiscordOutboxMessage[]>;
+  markDiscordMessageDelivered(id: string): Promise<void>;
+  markDiscordMessageFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+  getDiscordMessages(status: "pending" | "delivered" | "failed", limit: number): Promise<DiscordOutboxMessage[]>;
+  retryDiscordMessage(id: string): Promise<DiscordOutboxMessage | undefined>;
+}
+
+// Postgres refused a delete because rows still reference the row (foreign_key_violation)
+export function isForeignKeyViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23503";
 }
 
 export class DatabaseStorage implements IStorage {
@@ -76,15 +378,210 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.robloxUsername));
+  }
+
+  // The roster by username, a batch at a time
+  async *iterateUsers(filters: RosterFilters): AsyncGenerator<User[]> {
+    let after: string | undefined;
+
+    while (true) {
+      const rows = await db
+        .select()
+        .from(users)
+        .where(and(
+          ...rosterFilters(filters),
+          after ? gt(users.robloxUsername, after) : undefined,
+        ))
+        .orderBy(asc(users.robloxUsername))
+        .limit(EXPORT_BATCH_SIZE);
+      if (rows.length > 0) yield rows;
+      if (rows.length < EXPORT_BATCH_SIZE) return;
+      after = rows[rows.length - 1].robloxUsername;
+    }
+  }
+
+  async queryStaffDirectory(query: StaffDirectoryQuery): Promise<RequestPage<StaffMemberRow>> {
+    const conditions = rosterFilters(query);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(users)
+      .where(and(...conditions));
+
+    if (query.cursor) {
+      conditions.push(afterCursor(users, users.robloxUsername, users.id, query.cursor, "asc"));
+    }
+
+    const rows = await db
+      .select(staffMemberColumns)
+      .from(users)
+      .where(and(...conditions))
+      .orderBy(asc(users.robloxUsername), asc(users.id))
+      .limit(query.limit + 1);
+
+    return toPage(rows, total, query.limit);
+  }
+
+  // Everyone (or one department), highest rank first
+  async getStaffMembers(department?: string): Promise<StaffMemberRow[]> {
+    return await db
+      .select(staffMemberColumns)
+      .from(users)
+      .where(department ? eq(users.department, department) : undefined)
+      .orderBy(desc(users.rankId), asc(users.robloxUsername));
+  }
+
   async updateUser(id: string, data: Partial<User>): Promise<User | undefined> {
     const [user] = await db
       .update(users)
       .set({ ...data, lastLogin: new Date() })
       .where(eq(users.id, id))
       .returning();
+    if (user) portalEvents.emit("user.changed", { userId: id });
+    return user || undefined;
+  }
+
+  // Unlike updateUser, this leaves lastLogin alone (used by background rank re-syncs)
+  async setUserRank(id: string, rank: string, rankId: number): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ rank, rankId })
+      .where(eq(users.id, id))
+      .returning();
+    if (user) portalEvents.emit("user.changed", { userId: id });
+    return user || undefined;
+  }
+
+  // An admin correction outside the transfer flow, recorded on the assignment timeline.
+  // Also completes onboarding for a user who hasn't finished it.
+  async reassignUser(id: string, assignment: UserAssignment, assignedBy: string): Promise<User | undefined> {
+    const user = await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, id));
+      if (!existing) return undefined;
+
+      const [user] = await tx
+        .update(users)
+        .set({ department: assignment.department, subDepartment: assignment.subDepartment, onboardingStatus: "Complete" })
+        .where(eq(users.id, id))
+        .returning();
+
+      // An admin placing someone still onboarding settles their claim for them
+      await tx
+        .update(onboardingClaims)
+        .set({ status: "Withdrawn" })
+        .where(and(eq(onboardingClaims.userId, id), eq(onboardingClaims.status, "Pending")));
+
+      await tx.insert(departmentAssignments).values({
+        userId: id,
+        fromDepartment: existing.department,
+        fromSubDepartment: existing.subDepartment,
+        toDepartment: assignment.department,
+        toSubDepartment: assignment.subDepartment,
+        approvedBy: assignedBy,
+      });
+
+      return user;
+    });
+    if (user) portalEvents.emit("user.changed", { userId: id });
+    return user;
+  }
+
+  async suspendUser(id: string, suspension: UserSuspension, suspendedBy: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        suspendedAt: new Date(),
+        suspendedUntil: suspension.until ?? null,
+        suspensionReason: suspension.reason,
+        suspendedBy,
+      })
+      .where(eq(users.id, id))
+      .returning();
+    if (user) portalEvents.emit("user.changed", { userId: id });
+    return user || undefined;
+  }
+
+  async reinstateUser(id: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ suspendedAt: null, suspendedUntil: null, suspensionReason: null, suspendedBy: null })
+      .where(eq(users.id, id))
+      .returning();
+    if (user) portalEvents.emit("user.changed", { userId: id });
     return user || undefined;
   }
 
+  // Replaces the Roblox identity with placeholders but keeps the row, so request history,
+  // reviews and assignments stay intact. Signing in again with that Roblox account creates
+  // a fresh user.
+  //
+  // Copies of the identity elsewhere are replaced too: the audit trail's actor names,
+  // entity ids and snapshot values, and the username in other users' notifications (Roblox
+  // usernames are letters, digits and underscores, so they are safe to match as words).
+  async anonymiseUser(id: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, id));
+      if (!existing) return undefined;
+
+      const [user] = await tx
+        .update(users)
+        .set({
+          robloxUsername: `Anonymised user ${id.slice(0, 8)}`,
+          robloxUserId: `anonymised:${id}`,
+          anonymisedAt: new Date(),
+        })
+        .where(eq(users.id, id))
+        .returning();
+
+      await tx.delete(verificationCodes).where(eq(verificationCodes.username, existing.robloxUsername));
+
+      await tx
+        .update(auditEvents)
+        .set({ actorUsername: user.robloxUsername })
+        .where(eq(auditEvents.actorId, id));
+      await tx
+        .update(auditEvents)
+        .set({ entityId: user.robloxUserId })
+        .where(and(eq(auditEvents.entityType, "roblox_user"), eq(auditEvents.entityId, existing.robloxUserId)));
+
+      // Only whole JSON string values are replaced, so a longer name containing this one is left alone
+      const [oldName, oldId, newName, newId] = [existing.robloxUsername, existing.robloxUserId, user.robloxUsername, user.robloxUserId]
+        .map((value) => JSON.stringify(value));
+      const scrubbed = (column: typeof auditEvents.before | typeof auditEvents.after) =>
+        sql`replace(replace(${column}::text, ${oldName}, ${newName}), ${oldId}, ${newId})::jsonb`;
+      const mentions = (column: typeof auditEvents.before | typeof auditEvents.after) =>
+        sql`(strpos(${column}::text, ${oldName}) > 0 or strpos(${column}::text, ${oldId}) > 0)`;
+      await tx
+        .update(auditEvents)
+        .set({ before: scrubbed(auditEvents.before), after: scrubbed(auditEvents.after) })
+        .where(or(mentions(auditEvents.before), mentions(auditEvents.after)));
+
+      await tx
+        .update(notifications)
+        .set({ message: sql`regexp_replace(${notifications.message}, ${`\\m${existing.robloxUsername}\\M`}, ${user.robloxUsername}, 'g')` })
+        .where(sql`${notifications.message} ~ ${`\\m${existing.robloxUsername}\\M`}`);
+
+      return user;
+    });
+  }
+
+  // Removes the user with their own requests, notifications and history; decisions they
+  // made as a reviewer stay, without a reviewer
+  async deleteUser(id: string): Promise<User | undefined> {
+    const [user] = await db.delete(users).where(eq(users.id, id)).returning();
+    if (user) portalEvents.emit("user.changed", { userId: id });
+    return user || undefined;
+  }
+
+  // Signs the user out everywhere by deleting their rows from the connect-pg-simple store
+  async destroySessionsForUser(userId: string, reason?: string): Promise<number> {
+    const result = await db.execute(sql`DELETE FROM "session" WHERE sess->>'userId' = ${userId}`);
+    portalEvents.emit("sessions.revoked", { userId, reason });
+    return result.rowCount ?? 0;
+  }
+
   // Verification code operations
   async createVerificationCode(insertCode: InsertVerificationCode): Promise<VerificationCode> {
     const [code] = await db
@@ -120,34 +617,172 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Transfer request operations
-  async createTransferRequest(insertRequest: InsertTransferRequest): Promise<TransferRequest> {
+  // Undefined if the user already has a pending transfer
+  async createTransferRequest(insertRequest: InsertTransferRequest): Promise<TransferRequest | undefined> {
     const [request] = await db
       .insert(transferRequests)
       .values(insertRequest)
+      .onConflictDoNothing()
       .returning();
-    return request;
+    return request || undefined;
   }
 
-  async getTransferRequestsByUser(userId: string): Promise<TransferRequest[]> {
-    return await db
-      .select()
-      .from(transferRequests)
-      .where(eq(transferRequests.userId, userId))
-      .orderBy(desc(transferRequests.createdAt));
+  async getTransferRequest(id: string): Promise<TransferRequest | undefined> {
+    const [request] = await db.select().from(transferRequests).where(eq(transferRequests.id, id));
+    return request || undefined;
   }
 
-  async getAllTransferRequests(): Promise<TransferRequest[]> {
-    return await db
-      .select()
+  async getTransferRequestsByUser(userId: string): Promise<TransferRequestWithUsers[]> {
+    return await db.query.transferRequests.findMany({
+      where: eq(transferRequests.userId, userId),
+      with: transferRequestUsers,
+      orderBy: desc(transferRequests.createdAt),
+    });
+  }
+
+  async queryTransferRequests(query: RequestQuery, scopeDepartment?: string): Promise<RequestPage<TransferRequestWithUsers>> {
+    const conditions = transferRequestFilters(query, scopeDepartment);
+    const sortColumn = query.sort === "reviewedAt" ? transferRequests.reviewedAt : transferRequests.createdAt;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
       .from(transferRequests)
-      .orderBy(desc(transferRequests.createdAt));
+      .where(and(...conditions));
+
+    if (query.cursor) {
+      conditions.push(afterCursor(transferRequests, sortColumn, transferRequests.id, query.cursor, query.order));
+    }
+
+    const direction = query.order === "asc" ? asc : desc;
+    const rows = await db.query.transferRequests.findMany({
+      where: and(...conditions),
+      with: transferRequestUsers,
+      orderBy: [direction(sortColumn), direction(transferRequests.id)],
+      limit: query.limit + 1,
+    });
+
+    return toPage(rows, total, query.limit);
+  }
+
+  // Every matching transfer in the requested order, a batch at a time
+  async *iterateTransferRequests(filters: RequestFilters, scopeDepartment?: string): AsyncGenerator<TransferRequestWithUsers[]> {
+    const sortColumn = filters.sort === "reviewedAt" ? transferRequests.reviewedAt : transferRequests.createdAt;
+    const direction = filters.order === "asc" ? asc : desc;
+    let cursor: string | undefined;
+
+    while (true) {
+      const conditions = transferRequestFilters(filters, scopeDepartment);
+      if (cursor) {
+        conditions.push(afterCursor(transferRequests, sortColumn, transferRequests.id, cursor, filters.order));
+      }
+
+      const rows = await db.query.transferRequests.findMany({
+        where: and(...conditions),
+        with: transferRequestUsers,
+        orderBy: [direction(sortColumn), direction(transferRequests.id)],
+        limit: EXPORT_BATCH_SIZE,
+      });
+      if (rows.length > 0) yield rows;
+      if (rows.length < EXPORT_BATCH_SIZE) return;
+      cursor = rows[rows.length - 1].id;
+    }
+  }
+
+  async getPendingTransferRequests(): Promise<TransferRequestWithUsers[]> {
+    return await db.query.transferRequests.findMany({
+      where: eq(transferRequests.status, "Pending"),
+      with: transferRequestUsers,
+      orderBy: desc(transferRequests.createdAt),
+    });
   }
 
-  async updateTransferRequest(id: string, status: string, reviewedBy: string): Promise<TransferRequest | undefined> {
+  // Records one review stage. Rejecting at either stage closes the request; accepting
+  // it moves the user and records the move in the same transaction, so the request,
+  // the user's assignment and the history never disagree.
+  async reviewTransferStage(
+    id: string,
+    stage: TransferReviewStage,
+    status: RequestStatus,
+    reviewedBy: string,
+    note: string | null,
+  ): Promise<TransferRequest | undefined> {
+    const request = await db.transaction(async (tx) => {
+      const now = new Date();
+      const stageUpdate = stage === "Release"
+        ? { releaseStatus: status, releaseReviewedBy: reviewedBy, releaseReviewedAt: now, releaseNote: note }
+        : { acceptanceStatus: status, acceptanceReviewedBy: reviewedBy, acceptanceReviewedAt: now, acceptanceNote: note };
+      const isFinal = status === "Rejected" || stage === "Acceptance";
+      const stageColumn = stage === "Release"
+        ? transferRequests.releaseStatus
+        : transferRequests.acceptanceStatus;
+
+      const [request] = await tx
+        .update(transferRequests)
+        .set(isFinal ? { ...stageUpdate, status, reviewedBy, reviewedAt: now, reviewNote: note } : stageUpdate)
+        .where(and(
+          eq(transferRequests.id, id),
+          inArray(transferRequests.status, requestStatusesAllowingTransitionTo(status)),
+          eq(stageColumn, "Pending"),
+        ))
+        .returning();
+
+      if (!request || request.status !== "Approved") {
+        return request || undefined;
+      }
+
+      const [user] = await tx.select().from(users).where(eq(users.id, request.userId));
+      if (!user) {
+        return request;
+      }
+
+      await tx
+        .update(users)
+        .set({
+          department: request.requestedDepartment,
+          subDepartment: request.requestedSubDepartment,
+        })
+        .where(eq(users.id, user.id));
+
+      await tx.insert(departmentAssignments).values({
+        userId: user.id,
+        fromDepartment: user.department,
+        fromSubDepartment: user.subDepartment,
+        toDepartment: request.requestedDepartment,
+        toSubDepartment: request.requestedSubDepartment,
+        transferRequestId: request.id,
+        approvedBy: reviewedBy,
+      });
+
+      return request;
+    });
+    if (request?.status === "Approved") portalEvents.emit("user.changed", { userId: request.userId });
+    return request;
+  }
+
+  // Only the owner can edit, and only before the current department has released them
+  async updateTransferRequestDetails(id: string, userId: string, data: UpdateTransferRequest): Promise<TransferRequest | undefined> {
+    const [request] = await db
+      .update(transferRequests)
+      .set(data)
+      .where(and(
+        eq(transferRequests.id, id),
+        eq(transferRequests.userId, userId),
+        eq(transferRequests.status, "Pending"),
+        eq(transferRequests.releaseStatus, "Pending"),
+      ))
+      .returning();
+    return request || undefined;
+  }
+
+  async withdrawTransferRequest(id: string, userId: string): Promise<TransferRequest | undefined> {
     const [request] = await db
       .update(transferRequests)
-      .set({ status, reviewedBy, reviewedAt: new Date() })
-      .where(eq(transferRequests.id, id))
+      .set({ status: "Withdrawn" })
+      .where(and(
+        eq(transferRequests.id, id),
+        eq(transferRequests.userId, userId),
+        inArray(transferRequests.status, requestStatusesAllowingTransitionTo("Withdrawn")),
+      ))
       .returning();
     return request || undefined;
   }
@@ -161,26 +796,294 @@ export class DatabaseStorage implements IStorage {
     return request;
   }
 
-  async getLoaRequestsByUser(userId: string): Promise<LoaRequest[]> {
+  async getLoaRequest(id: string): Promise<LoaRequest | undefined> {
+    const [request] = await db.select().from(loaRequests).where(eq(loaRequests.id, id));
+    return request || undefined;
+  }
+
+  async getLoaRequestsByUser(userId: string): Promise<LoaRequestWithUsers[]> {
+    return await db.query.loaRequests.findMany({
+      where: eq(loaRequests.userId, userId),
+      with: loaRequestUsers,
+      orderBy: desc(loaRequests.createdAt),
+    });
+  }
+
+  async queryLoaRequests(query: RequestQuery): Promise<RequestPage<LoaRequestWithUsers>> {
+    const conditions = loaRequestFilters(query);
+    const sortColumn = query.sort === "reviewedAt" ? loaRequests.reviewedAt : loaRequests.createdAt;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(loaRequests)
+      .where(and(...conditions));
+
+    if (query.cursor) {
+      conditions.push(afterCursor(loaRequests, sortColumn, loaRequests.id, query.cursor, query.order));
+    }
+
+    const direction = query.order === "asc" ? asc : desc;
+    const rows = await db.query.loaRequests.findMany({
+      where: and(...conditions),
+      with: loaRequestUsers,
+      orderBy: [direction(sortColumn), direction(loaRequests.id)],
+      limit: query.limit + 1,
+    });
+
+    return toPage(rows, total, query.limit);
+  }
+
+  // Every matching LOA in the requested order, a batch at a time
+  async *iterateLoaRequests(filters: RequestFilters): AsyncGenerator<LoaRequestWithUsers[]> {
+    const sortColumn = filters.sort === "reviewedAt" ? loaRequests.reviewedAt : loaRequests.createdAt;
+    const direction = filters.order === "asc" ? asc : desc;
+    let cursor: string | undefined;
+
+    while (true) {
+      const conditions = loaRequestFilters(filters);
+      if (cursor) {
+        conditions.push(afterCursor(loaRequests, sortColumn, loaRequests.id, cursor, filters.order));
+      }
+
+      const rows = await db.query.loaRequests.findMany({
+        where: and(...conditions),
+        with: loaRequestUsers,
+        orderBy: [direction(sortColumn), direction(loaRequests.id)],
+        limit: EXPORT_BATCH_SIZE,
+      });
+      if (rows.length > 0) yield rows;
+      if (rows.length < EXPORT_BATCH_SIZE) return;
+      cursor = rows[rows.length - 1].id;
+    }
+  }
+
+  async updateLoaRequest(id: string, status: RequestStatus, reviewedBy: string, note: string | null): Promise<LoaRequest | undefined> {
+    const [request] = await db
+      .update(loaRequests)
+      .set({ status, reviewedBy, reviewedAt: new Date(), reviewNote: note })
+      .where(and(
+        eq(loaRequests.id, id),
+        inArray(loaRequests.status, requestStatusesAllowingTransitionTo(status)),
+      ))
+      .returning();
+    return request || undefined;
+  }
+
+  async updateLoaRequestDetails(id: string, userId: string, data: UpdateLoaRequest): Promise<LoaRequest | undefined> {
+    const [request] = await db
+      .update(loaRequests)
+      .set(data)
+      .where(and(
+        eq(loaRequests.id, id),
+        eq(loaRequests.userId, userId),
+        eq(loaRequests.status, "Pending"),
+      ))
+      .returning();
+    return request || undefined;
+  }
+
+  // LOAs overlapping [from, to] with their requesters, oldest start first
+  async getLoaRequestsInRange(from: Date, to: Date, statuses: string[]): Promise<{ request: LoaRequest; user: User }[]> {
     return await db
-      .select()
+      .select({ request: loaRequests, user: users })
       .from(loaRequests)
-      .where(eq(loaRequests.userId, userId))
-      .orderBy(desc(loaRequests.createdAt));
+      .innerJoin(users, eq(loaRequests.userId, users.id))
+      .where(and(
+        inArray(loaRequests.status, statuses),
+        lte(loaRequests.startDate, to),
+        gte(loaRequests.endDate, from),
+      ))
+      .orderBy(asc(loaRequests.startDate));
+  }
+
+  // LOA adjustment operations
+  async createLoaAdjustment(insertAdjustment: InsertLoaAdjustment): Promise<LoaAdjustment> {
+    const [adjustment] = await db
+      .insert(loaAdjustments)
+      .values(insertAdjustment)
+      .returning();
+    return adjustment;
   }
 
-  async getAllLoaRequests(): Promise<LoaRequest[]> {
+  async getLoaAdjustment(id: string): Promise<LoaAdjustment | undefined> {
+    const [adjustment] = await db.select().from(loaAdjustments).where(eq(loaAdjustments.id, id));
+    return adjustment || undefined;
+  }
+
+  async getLoaAdjustmentsByRequest(loaRequestId: string): Promise<LoaAdjustment[]> {
     return await db
       .select()
-      .from(loaRequests)
-      .orderBy(desc(loaRequests.createdAt));
+      .from(loaAdjustments)
+      .where(eq(loaAdjustments.loaRequestId, loaRequestId))
+      .orderBy(asc(loaAdjustments.createdAt));
   }
 
-  async updateLoaRequest(id: string, status: string, reviewedBy: string): Promise<LoaRequest | undefined> {
+  async getPendingLoaAdjustments(): Promise<LoaAdjustment[]> {
+    return await db
+      .select()
+      .from(loaAdjustments)
+      .where(eq(loaAdjustments.status, "Pending"))
+      .orderBy(desc(loaAdjustments.createdAt));
+  }
+
+  // Approving an extension moves the parent LOA's end date in the same transaction.
+  // Returns undefined if the extension was already decided or the LOA is no longer approved.
+  async reviewLoaExtension(id: string, status: RequestStatus, reviewedBy: string, note: string | null): Promise<LoaAdjustment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(loaAdjustments)
+        .where(and(eq(loaAdjustments.id, id), eq(loaAdjustments.type, "Extension")));
+      if (!pending) {
+        return undefined;
+      }
+
+      const [parent] = await tx
+        .select()
+        .from(loaRequests)
+        .where(eq(loaRequests.id, pending.loaRequestId))
+        .for("update");
+      if (status === "Approved" && parent?.status !== "Approved") {
+        return undefined;
+      }
+
+      const [adjustment] = await tx
+        .update(loaAdjustments)
+        .set({ status, reviewedBy, reviewedAt: new Date(), reviewNote: note })
+        .where(and(
+          eq(loaAdjustments.id, id),
+          inArray(loaAdjustments.status, requestStatusesAllowingTransitionTo(status)),
+        ))
+        .returning();
+
+      // The end reminder was for the old end date, so the new one gets its own
+      if (adjustment && status === "Approved") {
+        await tx
+          .update(loaRequests)
+          .set({ endDate: adjustment.requestedEndDate, endReminderSentAt: null })
+          .where(eq(loaRequests.id, adjustment.loaRequestId));
+      }
+
+      return adjustment || undefined;
+    });
+  }
+
+  // Early returns need no review: the adjustment is recorded as approved and the LOA ends now
+  async recordEarlyReturn(loaRequestId: string, userId: string, returnDate: Date, reason: string | null): Promise<LoaAdjustment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [parent] = await tx
+        .select()
+        .from(loaRequests)
+        .where(and(eq(loaRequests.id, loaRequestId), eq(loaRequests.userId, userId), eq(loaRequests.status, "Approved")))
+        .for("update");
+
+      if (!parent || parent.endDate.getTime() <= returnDate.getTime()) {
+        return undefined;
+      }
+
+      await tx
+        .update(loaRequests)
+        .set({ endDate: returnDate, endReminderSentAt: null })
+        .where(eq(loaRequests.id, parent.id));
+
+      // A pending extension makes no sense once the staff member is back
+      await tx
+        .update(loaAdjustments)
+        .set({ status: "Withdrawn" })
+        .where(and(
+          eq(loaAdjustments.loaRequestId, parent.id),
+          eq(loaAdjustments.status, "Pending"),
+        ));
+
+      const [adjustment] = await tx
+        .insert(loaAdjustments)
+        .values({
+          loaRequestId: parent.id,
+          userId,
+          type: "EarlyReturn",
+          previousEndDate: parent.endDate,
+          requestedEndDate: returnDate,
+          reason,
+          status: "Approved",
+          reviewedAt: returnDate,
+        })
+        .returning();
+
+      return adjustment;
+    });
+  }
+
+  // LOA lifecycle operations
+
+  // Moves approved LOAs between Upcoming, Active and Completed by their dates, and clears
+  // the phase of LOAs that are no longer approved. Returns the number of LOAs changed.
+  async updateLoaPhases(now: Date): Promise<number> {
+    // Raw SQL parameters skip Drizzle's column mapping, so pass the UTC string it stores
+    const at = now.toISOString();
+    const result = await db.execute(sql`
+      UPDATE ${loaRequests}
+      SET phase = CASE
+        WHEN ${loaRequests.status} <> 'Approved' THEN NULL
+        WHEN ${loaRequests.startDate} > ${at} THEN 'Upcoming'
+        WHEN ${loaRequests.endDate} > ${at} THEN 'Active'
+        ELSE 'Completed'
+      END
+      WHERE ${loaRequests.phase} IS DISTINCT FROM (CASE
+        WHEN ${loaRequests.status} <> 'Approved' THEN NULL
+        WHEN ${loaRequests.startDate} > ${at} THEN 'Upcoming'
+        WHEN ${loaRequests.endDate} > ${at} THEN 'Active'
+        ELSE 'Completed'
+      END)
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Sets users.onLeave / onLeaveUntil from their currently active approved LOAs
+  async syncOnLeaveFlags(now: Date): Promise<number> {
+    const at = now.toISOString();
+    const activeUntil = sql`(
+      SELECT MAX(${loaRequests.endDate}) FROM ${loaRequests}
+      WHERE ${loaRequests.userId} = ${users.id}
+        AND ${loaRequests.status} = 'Approved'
+        AND ${loaRequests.startDate} <= ${at}
+        AND ${loaRequests.endDate} > ${at}
+    )`;
+    const result = await db.execute(sql`
+      UPDATE ${users}
+      SET on_leave = ${activeUntil} IS NOT NULL, on_leave_until = ${activeUntil}
+      WHERE ${users.onLeaveUntil} IS DISTINCT FROM ${activeUntil}
+        OR ${users.onLeave} <> (${activeUntil} IS NOT NULL)
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Marks and returns approved LOAs starting (or ending) between now and until that haven't
+  // had that reminder yet. Claiming in one UPDATE means a reminder is never sent twice.
+  async claimLoaReminders(kind: "start" | "end", now: Date, until: Date): Promise<LoaRequest[]> {
+    const dateColumn = kind === "start" ? loaRequests.startDate : loaRequests.endDate;
+    const sentColumn = kind === "start" ? loaRequests.startReminderSentAt : loaRequests.endReminderSentAt;
+
+    return await db
+      .update(loaRequests)
+      .set(kind === "start" ? { startReminderSentAt: now } : { endReminderSentAt: now })
+      .where(and(
+        eq(loaRequests.status, "Approved"),
+        isNull(sentColumn),
+        gte(dateColumn, now),
+        lte(dateColumn, until),
+      ))
+      .returning();
+  }
+
+  async withdrawLoaRequest(id: string, userId: string): Promise<LoaRequest | undefined> {
     const [request] = await db
       .update(loaRequests)
-      .set({ status, reviewedBy, reviewedAt: new Date() })
-      .where(eq(loaRequests.id, id))
+      .set({ status: "Withdrawn" })
+      .where(and(
+        eq(loaRequests.id, id),
+        eq(loaRequests.userId, userId),
+        inArray(loaRequests.status, requestStatusesAllowingTransitionTo("Withdrawn")),
+      ))
       .returning();
     return request || undefined;
   }
@@ -191,9 +1094,18 @@ export class DatabaseStorage implements IStorage {
       .insert(notifications)
       .values(insertNotification)
       .returning();
+    portalEvents.emit("notification.created", notification);
     return notification;
   }
 
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+    return result?.count ?? 0;
+  }
+
   async getNotificationsByUser(userId: string): Promise<Notification[]> {
     return await db
       .select()
@@ -215,6 +1127,454 @@ export class DatabaseStorage implements IStorage {
       .set({ read: true })
       .where(eq(notifications.userId, userId));
   }
+
+  // Request comment operations
+  async createRequestComment(insertComment: InsertRequestComment): Promise<RequestComment> {
+    const [comment] = await db
+      .insert(requestComments)
+      .values(insertComment)
+      .returning();
+    return comment;
+  }
+
+  async getRequestComments(requestType: string, requestId: string): Promise<RequestCommentWithAuthor[]> {
+    return await db.query.requestComments.findMany({
+      where: and(eq(requestComments.requestType, requestType), eq(requestComments.requestId, requestId)),
+      with: { author: { columns: requestUserColumns } },
+      orderBy: asc(requestComments.createdAt),
+    });
+  }
+
+  // Department assignment operations
+  async getDepartmentAssignmentsByUser(userId: string): Promise<DepartmentAssignment[]> {
+    return await db
+      .select()
+      .from(departmentAssignments)
+      .where(eq(departmentAssignments.userId, userId))
+      .orderBy(desc(departmentAssignments.assignedAt));
+  }
+
+  // Organisation structure operations
+  async getDepartments(): Promise<Department[]> {
+    return await db.select().from(departments).orderBy(asc(departments.sortOrder), asc(departments.name));
+  }
+
+  async getSubDepartments(): Promise<SubDepartment[]> {
+    return await db.select().from(subDepartments).orderBy(asc(subDepartments.sortOrder), asc(subDepartments.name));
+  }
+
+  // Department names in order, each with its sub-department names. Units another instance
+  // seeded first are left as they are.
+  async seedOrgStructure(structure: Record<string, string[]>): Promise<void> {
+    const names = Object.keys(structure);
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(departments)
+        .values(names.map((name, index) => ({ name, sortOrder: index })))
+        .onConflictDoNothing();
+      const seeded = await tx.select().from(departments).where(inArray(departments.name, names));
+      await tx
+        .insert(subDepartments)
+        .values(seeded.flatMap((department) => structure[department.name].map((name, index) => ({
+          departmentId: department.id,
+          name,
+          sortOrder: index,
+        }))))
+        .onConflictDoNothing();
+    });
+  }
+
+  // New departments go to the end of the list
+  async createDepartment(data: InsertDepartment): Promise<Department> {
+    const [department] = await db
+      .insert(departments)
+      .values({
+        ...data,
+        sortOrder: sql`(SELECT coalesce(max(${departments.sortOrder}), -1) + 1 FROM ${departments})`,
+      })
+      .returning();
+    return department;
+  }
+
+  async updateDepartment(id: string, data: UpdateDepartment): Promise<Department | undefined> {
+    const [department] = await db
+      .update(departments)
+      .set(data)
+      .where(eq(departments.id, id))
+      .returning();
+    return department || undefined;
+  }
+
+  async deleteDepartment(id: string): Promise<Department | undefined> {
+    const [department] = await db.delete(departments).where(eq(departments.id, id)).returning();
+    return department || undefined;
+  }
+
+  async createSubDepartment(departmentId: string, data: InsertSubDepartment): Promise<SubDepartment> {
+    const [subDepartment] = await db
+      .insert(subDepartments)
+      .values({
+        ...data,
+        departmentId,
+        sortOrder: sql`(SELECT coalesce(max(${subDepartments.sortOrder}), -1) + 1 FROM ${subDepartments} WHERE ${subDepartments.departmentId} = ${departmentId})`,
+      })
+      .returning();
+    return subDepartment;
+  }
+
+  async updateSubDepartment(id: string, data: UpdateSubDepartment): Promise<SubDepartment | undefined> {
+    const [subDepartment] = await db
+      .update(subDepartments)
+      .set(data)
+      .where(eq(subDepartments.id, id))
+      .returning();
+    return subDepartment || undefined;
+  }
+
+  async deleteSubDepartment(id: string): Promise<SubDepartment | undefined> {
+    const [subDepartment] = await db.delete(subDepartments).where(eq(subDepartments.id, id)).returning();
+    return subDepartment || undefined;
+  }
+
+  // Members per placement (users still onboarding count under null)
+  async getHeadcounts(): Promise<{ department: string | null; subDepartment: string | null; count: number }[]> {
+    return await db
+      .select({
+        department: users.department,
+        subDepartment: users.subDepartment,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(users)
+      .groupBy(users.department, users.subDepartment);
+  }
+
+  // Whether any user, request, claim or history row still points at the department or
+  // sub-department; only unused ones can be deleted (the rest are archived instead). The
+  // foreign keys enforce the same rule; this gives routes a clear answer up front.
+  async isOrgUnitReferenced(kind: "department" | "subDepartment", id: string): Promise<boolean> {
+    const references = kind === "department"
+      ? [
+        db.select({ id: users.id }).from(users).where(eq(users.department, id)),
+        db.select({ id: transferRequests.id }).from(transferRequests).where(or(
+          eq(transferRequests.currentDepartment, id),
+          eq(transferRequests.requestedDepartment, id),
+        )),
+        db.select({ id: onboardingClaims.id }).from(onboardingClaims).where(eq(onboardingClaims.department, id)),
+        db.select({ id: departmentAssignments.id }).from(departmentAssignments).where(or(
+          eq(departmentAssignments.fromDepartment, id),
+          eq(departmentAssignments.toDepartment, id),
+        )),
+        db.select({ id: discordWebhooks.id }).from(discordWebhooks).where(eq(discordWebhooks.department, id)),
+        db.select({ id: calendarFeedTokens.id }).from(calendarFeedTokens).where(eq(calendarFeedTokens.department, id)),
+      ]
+      : [
+        db.select({ id: users.id }).from(users).where(eq(users.subDepartment, id)),
+        db.select({ id: transferRequests.id }).from(transferRequests).where(or(
+          eq(transferRequests.currentSubDepartment, id),
+          eq(transferRequests.requestedSubDepartment, id),
+        )),
+        db.select({ id: onboardingClaims.id }).from(onboardingClaims).where(eq(onboardingClaims.subDepartment, id)),
+        db.select({ id: departmentAssignments.id }).from(departmentAssignments).where(or(
+          eq(departmentAssignments.fromSubDepartment, id),
+          eq(departmentAssignments.toSubDepartment, id),
+        )),
+      ];
+
+    for (const query of references) {
+      const [row] = await query.limit(1);
+      if (row) return true;
+    }
+    return false;
+  }
+
+  // Onboarding claim operations
+  // Undefined if the user already has a pending claim
+  async createOnboardingClaim(userId: string, placement: UserAssignment): Promise<OnboardingClaim | undefined> {
+    const [claim] = await db
+      .insert(onboardingClaims)
+      .values({ userId, department: placement.department, subDepartment: placement.subDepartment })
+      .onConflictDoNothing()
+      .returning();
+    return claim || undefined;
+  }
+
+  async getOnboardingClaim(id: string): Promise<OnboardingClaim | undefined> {
+    const [claim] = await db.select().from(onboardingClaims).where(eq(onboardingClaims.id, id));
+    return claim || undefined;
+  }
+
+  async getLatestOnboardingClaim(userId: string): Promise<OnboardingClaim | undefined> {
+    const [claim] = await db
+      .select()
+      .from(onboardingClaims)
+      .where(eq(onboardingClaims.userId, userId))
+      .orderBy(desc(onboardingClaims.createdAt))
+      .limit(1);
+    return claim || undefined;
+  }
+
+  // Department-scoped reviewers pass scopeDepartment to only see claims on it
+  async getPendingOnboardingClaims(scopeDepartment?: string): Promise<OnboardingClaimWithUsers[]> {
+    return await db.query.onboardingClaims.findMany({
+      where: and(
+        eq(onboardingClaims.status, "Pending"),
+        scopeDepartment ? eq(onboardingClaims.department, scopeDepartment) : undefined,
+      ),
+      with: {
+        user: { columns: requestUserColumns },
+        reviewer: { columns: requestUserColumns },
+      },
+      orderBy: asc(onboardingClaims.createdAt),
+    });
+  }
+
+  // Decides a pending claim. Confirming it places the user and completes their onboarding.
+  async reviewOnboardingClaim(id: string, status: RequestStatus, reviewedBy: string, note: string | null): Promise<OnboardingClaim | undefined> {
+    const claim = await db.transaction(async (tx) => {
+      const [claim] = await tx
+        .update(onboardingClaims)
+        .set({ status, reviewedBy, reviewedAt: new Date(), reviewNote: note })
+        .where(and(
+          eq(onboardingClaims.id, id),
+          inArray(onboardingClaims.status, requestStatusesAllowingTransitionTo(status)),
+        ))
+        .returning();
+
+      if (!claim || claim.status !== "Approved") {
+        return claim || undefined;
+      }
+
+      await tx
+        .update(users)
+        .set({ department: claim.department, subDepartment: claim.subDepartment, onboardingStatus: "Complete" })
+        .where(eq(users.id, claim.userId));
+
+      await tx.insert(departmentAssignments).values({
+        userId: claim.userId,
+        toDepartment: claim.department,
+        toSubDepartment: claim.subDepartment,
+        approvedBy: reviewedBy,
+      });
+
+      return claim;
+    });
+    if (claim?.status === "Approved") portalEvents.emit("user.changed", { userId: claim.userId });
+    return claim;
+  }
+
+  // Portal setting operations
+  async getSetting(key: string): Promise<PortalSetting | undefined> {
+    const [setting] = await db.select().from(portalSettings).where(eq(portalSettings.key, key));
+    return setting || undefined;
+  }
+
+  async upsertSetting(key: string, value: unknown, updatedBy: string | null): Promise<PortalSetting> {
+    const [setting] = await db
+      .insert(portalSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: portalSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  // Rank change operations
+  async createRankChange(insertChange: InsertRankChange): Promise<RankChange> {
+    const [change] = await db
+      .insert(rankChanges)
+      .values(insertChange)
+      .returning();
+    return change;
+  }
+
+  async getRankChangesByUser(userId: string): Promise<RankChange[]> {
+    return await db
+      .select()
+      .from(rankChanges)
+      .where(eq(rankChanges.userId, userId))
+      .orderBy(desc(rankChanges.changedAt));
+  }
+
+  // Audit operations (append-only)
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await db
+      .insert(auditEvents)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<AuditEvent[]> {
+    const conditions: SQL[] = [];
+    if (query.actorId) conditions.push(eq(auditEvents.actorId, query.actorId));
+    if (query.action) conditions.push(eq(auditEvents.action, query.action));
+    if (query.entityType) conditions.push(eq(auditEvents.entityType, query.entityType));
+    if (query.entityId) conditions.push(eq(auditEvents.entityId, query.entityId));
+    if (query.from) conditions.push(gte(auditEvents.createdAt, query.from));
+    if (query.to) conditions.push(lte(auditEvents.createdAt, query.to));
+
+    return await db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(query.limit);
+  }
+
+  // Calendar feed token operations
+  async createCalendarFeedToken(department: string, label: string | null, createdBy: string): Promise<CalendarFeedToken> {
+    const [feed] = await db
+      .insert(calendarFeedTokens)
+      .values({ department, label, createdBy, token: randomBytes(24).toString("base64url") })
+      .returning();
+    return feed;
+  }
+
+  async getActiveCalendarFeedToken(token: string): Promise<CalendarFeedToken | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeedTokens)
+      .where(and(eq(calendarFeedTokens.token, token), isNull(calendarFeedTokens.revokedAt)));
+    return feed || undefined;
+  }
+
+  async getCalendarFeedTokens(): Promise<CalendarFeedToken[]> {
+    return await db
+      .select()
+      .from(calendarFeedTokens)
+      .orderBy(desc(calendarFeedTokens.createdAt));
+  }
+
+  async revokeCalendarFeedToken(id: string): Promise<CalendarFeedToken | undefined> {
+    const [feed] = await db
+      .update(calendarFeedTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(calendarFeedTokens.id, id), isNull(calendarFeedTokens.revokedAt)))
+      .returning();
+    return feed || undefined;
+  }
+
+  // Discord webhook operations
+  async getDiscordWebhooks(): Promise<DiscordWebhook[]> {
+    return await db
+      .select()
+      .from(discordWebhooks)
+      .orderBy(asc(discordWebhooks.createdAt));
+  }
+
+  async getDiscordWebhook(id: string): Promise<DiscordWebhook | undefined> {
+    const [webhook] = await db.select().from(discordWebhooks).where(eq(discordWebhooks.id, id));
+    return webhook || undefined;
+  }
+
+  // Enabled webhooks for any of the departments, plus every admin channel (no department)
+  async getDiscordWebhookTargets(departments: string[]): Promise<DiscordWebhook[]> {
+    const departmentMatch = departments.length > 0
+      ? or(isNull(discordWebhooks.department), inArray(discordWebhooks.department, departments))
+      : isNull(discordWebhooks.department);
+
+    return await db
+      .select()
+      .from(discordWebhooks)
+      .where(and(eq(discordWebhooks.enabled, true), departmentMatch));
+  }
+
+  async createDiscordWebhook(webhook: InsertDiscordWebhook, createdBy: string): Promise<DiscordWebhook> {
+    const [created] = await db
+      .insert(discordWebhooks)
+      .values({ ...webhook, createdBy })
+      .returning();
+    return created;
+  }
+
+  async updateDiscordWebhook(id: string, data: UpdateDiscordWebhook): Promise<DiscordWebhook | undefined> {
+    const [webhook] = await db
+      .update(discordWebhooks)
+      .set(data)
+      .where(eq(discordWebhooks.id, id))
+      .returning();
+    return webhook || undefined;
+  }
+
+  async deleteDiscordWebhook(id: string): Promise<DiscordWebhook | undefined> {
+    const [webhook] = await db
+      .delete(discordWebhooks)
+      .where(eq(discordWebhooks.id, id))
+      .returning();
+    return webhook || undefined;
+  }
+
+  // Discord outbox operations
+  async enqueueDiscordMessages(messages: InsertDiscordOutboxMessage[]): Promise<DiscordOutboxMessage[]> {
+    if (messages.length === 0) return [];
+    return await db.insert(discordOutbox).values(messages).returning();
+  }
+
+  // Takes due messages and pushes their next attempt out to leaseUntil, so a delivery that
+  // crashes part-way is picked up again once the lease runs out
+  async claimDiscordMessages(now: Date, leaseUntil: Date, limit: number): Promise<DiscordOutboxMessage[]> {
+    const due = db
+      .select({ id: discordOutbox.id })
+      .from(discordOutbox)
+      .where(and(
+        isNull(discordOutbox.deliveredAt),
+        isNull(discordOutbox.failedAt),
+        lte(discordOutbox.nextAttemptAt, now),
+      ))
+      .orderBy(asc(discordOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(discordOutbox)
+      .set({ nextAttemptAt: leaseUntil, attempts: sql`${discordOutbox.attempts} + 1` })
+      .where(inArray(discordOutbox.id, due))
+      .returning();
+  }
+
+  async markDiscordMessageDelivered(id: string): Promise<void> {
+    await db
+      .update(discordOutbox)
+      .set({ deliveredAt: new Date(), lastError: null })
+      .where(eq(discordOutbox.id, id));
+  }
+
+  // A null retryAt gives up on the message
+  async markDiscordMessageFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(discordOutbox)
+      .set(retryAt
+        ? { lastError: error, nextAttemptAt: retryAt }
+        : { lastError: error, failedAt: new Date() })
+      .where(eq(discordOutbox.id, id));
+  }
+
+  async getDiscordMessages(status: "pending" | "delivered" | "failed", limit: number): Promise<DiscordOutboxMessage[]> {
+    const condition = status === "delivered"
+      ? isNotNull(discordOutbox.deliveredAt)
+      : status === "failed"
+        ? isNotNull(discordOutbox.failedAt)
+        : and(isNull(discordOutbox.deliveredAt), isNull(discordOutbox.failedAt));
+
+    return await db
+      .select()
+      .from(discordOutbox)
+      .where(condition)
+      .orderBy(desc(discordOutbox.createdAt))
+      .limit(limit);
+  }
+
+  // Puts a given-up message back in the queue with a fresh set of attempts
+  async retryDiscordMessage(id: string): Promise<DiscordOutboxMessage | undefined> {
+    const [message] = await db
+      .update(discordOutbox)
+      .set({ failedAt: null, attempts: 0, nextAttemptAt: new Date() })
+      .where(and(eq(discordOutbox.id, id), isNotNull(discordOutbox.failedAt)))
+      .returning();
+    return message || undefined;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkLoaPolicy, type LoaPolicy } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-01-01T00:00:00Z");
+
+// An LOA from `from` to `to` days after now
+function loa(from: number, to: number) {
+  return { startDate: new Date(now.getTime() + from * DAY_MS), endDate: new Date(now.getTime() + to * DAY_MS) };
+}
+
+function codes(violations: { code: string }[]) {
+  return violations.map((violation) => violation.code);
+}
+
+describe("checkLoaPolicy", () => {
+  const policy: LoaPolicy = {
+    minNoticeDays: 0,
+    maxDurationDays: [{ minRankId: 0, days: 30 }],
+    periodDays: 90,
+    maxDaysPerPeriod: 25,
+  };
+
+  it("accepts an LOA within every limit", () => {
+    assert.deepEqual(checkLoaPolicy(policy, loa(0, 10), { rankId: 200, existing: [], now }), []);
+  });
+
+  it("rejects an LOA that ends before it starts without running the other checks", () => {
+    assert.deepEqual(codes(checkLoaPolicy(policy, loa(10, 5), { rankId: 200, existing: [], now })), ["LOA_END_BEFORE_START"]);
+  });
+
+  it("rejects overlaps with other LOAs", () => {
+    const violations = checkLoaPolicy(policy, loa(5, 8), { rankId: 200, existing: [loa(0, 6)], now });
+    assert.ok(codes(violations).includes("LOA_OVERLAP"));
+  });
+
+  it("caps LOA days in windows anchored on the new LOA", () => {
+    const violations = checkLoaPolicy(policy, loa(0, 10), { rankId: 200, existing: [loa(20, 36)], now });
+    assert.deepEqual(codes(violations), ["LOA_PERIOD_LIMIT"]);
+  });
+
+  it("caps LOA days in windows that fall between the new LOA's start and end windows", () => {
+    // [-40, 50] holds 30 days, though the windows ending at day 10 and starting at day 0
+    // hold only 20
+    const violations = checkLoaPolicy(policy, loa(0, 10), { rankId: 200, existing: [loa(-40, -30), loa(40, 50)], now });
+    assert.deepEqual(codes(violations), ["LOA_PERIOD_LIMIT"]);
+  });
+
+  it("ignores LOAs further apart than the period", () => {
+    const violations = checkLoaPolicy(policy, loa(0, 10), { rankId: 200, existing: [loa(-100, -80), loa(100, 120)], now });
+    assert.deepEqual(violations, []);
+  });
+});
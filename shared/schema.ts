@@ -1,32 +1,10 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, jsonb, index, uniqueIndex, foreignKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Enums for departments and ranks
-export const DEPARTMENTS = [
-  "HR",
-  "Staff Management",
-  "Internal Affairs",
-  "Professional Development",
-  "PR",
-  "Engagement and Marketing",
-  "Socials",
-  "Affiliates",
-] as const;
-
-export const SUB_DEPARTMENTS = {
-  "HR": ["Recruitment", "Training", "Employee Relations"],
-  "Staff Management": ["Performance", "Scheduling", "Operations"],
-  "Internal Affairs": ["Compliance", "Investigations", "Quality Assurance"],
-  "Professional Development": ["Learning", "Mentorship", "Career Growth"],
-  "PR": ["Communications", "Media Relations", "Brand"],
-  "Engagement and Marketing": ["Community", "Events", "Campaigns"],
-  "Socials": ["Content Creation", "Social Media", "Graphics"],
-  "Affiliates": ["Partnerships", "Relations", "Outreach"],
-} as const;
-
+// Enums for ranks. Departments and sub-departments live in the database (see GET /api/org).
 export const RANKS = [
   "Supervisor",
   "Manager",
@@ -36,7 +14,91 @@ export const RANKS = [
   "Executive Board",
 ] as const;
 
-export const REQUEST_STATUS = ["Pending", "Approved", "Rejected"] as const;
+export const REQUEST_STATUS = ["Pending", "Approved", "Rejected", "Withdrawn"] as const;
+
+// Allowed status changes for transfer and LOA requests. Only pending requests can
+// change; once approved, rejected or withdrawn a request is final.
+export const REQUEST_STATUS_TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+  Pending: ["Approved", "Rejected", "Withdrawn"],
+  Approved: [],
+  Rejected: [],
+  Withdrawn: [],
+};
+
+export function canTransitionRequest(from: string, to: RequestStatus): boolean {
+  return (REQUEST_STATUS_TRANSITIONS[from as RequestStatus] ?? []).includes(to);
+}
+
+// Statuses a request may be in for it to move to the given status
+export function requestStatusesAllowingTransitionTo(to: RequestStatus): RequestStatus[] {
+  return REQUEST_STATUS.filter((from) => canTransitionRequest(from, to));
+}
+
+// Where an approved LOA is in its dates; kept up to date by a background job
+export const LOA_PHASES = ["Upcoming", "Active", "Completed"] as const;
+
+// Follow-up requests against an approved LOA
+export const LOA_ADJUSTMENT_TYPES = ["Extension", "EarlyReturn"] as const;
+
+// New users pick their department on first login; leadership of that department
+// confirms the claim before they get full access
+export const ONBOARDING_STATUSES = ["Pending", "Complete"] as const;
+
+// Named permissions, granted by rank (and optionally department) on the server
+export const PERMISSIONS = [
+  "loa.review",
+  "transfer.review",
+  "onboarding.review",
+  "users.manage",
+  "org.manage",
+  "settings.manage",
+  "audit.view",
+  "coverage.view",
+] as const;
+
+// A "department" grant only applies to requests and users in the holder's own department
+export const PERMISSION_SCOPES = ["global", "department"] as const;
+
+// Transfers are released by the current department, then accepted by the requested one
+export const TRANSFER_REVIEW_STAGES = ["Release", "Acceptance"] as const;
+
+// Organisation structure. Users, requests and claims store these ids in their
+// department and subDepartment columns, so a rename only changes the display name. The
+// original departments were seeded with their names as ids, which is what those columns
+// held before.
+export const departments = pgTable("departments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  // Archived departments keep their members but take no new ones
+  archived: boolean("archived").notNull().default(false),
+  // Most members at once; null for no limit
+  headcountCap: integer("headcount_cap"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const subDepartments = pgTable("sub_departments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  departmentId: varchar("department_id").notNull().references(() => departments.id),
+  name: text("name").notNull(),
+  archived: boolean("archived").notNull().default(false),
+  headcountCap: integer("headcount_cap"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("sub_departments_name_idx").on(table.departmentId, table.name),
+]);
+
+export const departmentsRelations = relations(departments, ({ many }) => ({
+  subDepartments: many(subDepartments),
+}));
+
+export const subDepartmentsRelations = relations(subDepartments, ({ one }) => ({
+  department: one(departments, {
+    fields: [subDepartments.departmentId],
+    references: [departments.id],
+  }),
+}));
 
 // Users table
 export const users = pgTable("users", {
@@ -45,16 +107,40 @@ export const users = pgTable("users", {
   robloxUserId: text("roblox_user_id").notNull().unique(),
   rank: text("rank").notNull(),
   rankId: integer("rank_id").notNull(),
-  department: text("department").notNull(),
-  subDepartment: text("sub_department").notNull(),
+  // Department and sub-department ids; null until the user's onboarding claim is confirmed.
+  // Org units that are still referenced can't be deleted; they are archived instead.
+  department: text("department").references(() => departments.id, { onDelete: "restrict" }),
+  subDepartment: text("sub_department").references(() => subDepartments.id, { onDelete: "restrict" }),
+  onboardingStatus: text("onboarding_status").notNull().default("Complete"),
   verifiedAt: timestamp("verified_at").notNull().defaultNow(),
   lastLogin: timestamp("last_login").notNull().defaultNow(),
-});
+  // Derived from approved LOAs by the LOA lifecycle job
+  onLeave: boolean("on_leave").notNull().default(false),
+  onLeaveUntil: timestamp("on_leave_until"),
+  // Set by an admin to block portal access; a null suspendedUntil means until reinstated
+  suspendedAt: timestamp("suspended_at"),
+  suspendedUntil: timestamp("suspended_until"),
+  suspensionReason: text("suspension_reason"),
+  suspendedBy: varchar("suspended_by").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
+  // Set when an admin scrubbed the user's Roblox identity
+  anonymisedAt: timestamp("anonymised_at"),
+}, (table) => [
+  index("users_department_idx").on(table.department, table.subDepartment),
+]);
+
+export function isSuspended(user: Pick<User, "suspendedAt" | "suspendedUntil">, now = new Date()) {
+  return user.suspendedAt !== null && (user.suspendedUntil === null || user.suspendedUntil > now);
+}
 
 export const usersRelations = relations(users, ({ many }) => ({
-  transferRequests: many(transferRequests),
-  loaRequests: many(loaRequests),
+  // Requests and assignments also point at users as reviewers and approvers, so the
+  // requester side is named explicitly
+  transferRequests: many(transferRequests, { relationName: "requester" }),
+  loaRequests: many(loaRequests, { relationName: "requester" }),
   notifications: many(notifications),
+  departmentAssignments: many(departmentAssignments, { relationName: "assignee" }),
+  rankChanges: many(rankChanges),
+  onboardingClaims: many(onboardingClaims, { relationName: "claimant" }),
 }));
 
 // Verification codes table
@@ -71,26 +157,60 @@ export const verificationCodes = pgTable("verification_codes", {
 export const transferRequests = pgTable("transfer_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  currentDepartment: text("current_department").notNull(),
+  currentDepartment: text("current_department").notNull().references(() => departments.id, { onDelete: "restrict" }),
   currentSubDepartment: text("current_sub_department").notNull(),
-  requestedDepartment: text("requested_department").notNull(),
+  requestedDepartment: text("requested_department").notNull().references(() => departments.id, { onDelete: "restrict" }),
   requestedSubDepartment: text("requested_sub_department").notNull(),
   reason: text("reason"),
   status: text("status").notNull().default("Pending"),
+  releaseStatus: text("release_status").notNull().default("Pending"),
+  releaseReviewedAt: timestamp("release_reviewed_at"),
+  releaseReviewedBy: varchar("release_reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  releaseNote: text("release_note"),
+  acceptanceStatus: text("acceptance_status").notNull().default("Pending"),
+  acceptanceReviewedAt: timestamp("acceptance_reviewed_at"),
+  acceptanceReviewedBy: varchar("acceptance_reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  acceptanceNote: text("acceptance_note"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   reviewedAt: timestamp("reviewed_at"),
-  reviewedBy: varchar("reviewed_by").references(() => users.id),
-});
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  // The deciding stage's note: the rejection reason, or the acceptance note
+  reviewNote: text("review_note"),
+}, (table) => [
+  // Admin queue filters and keyset pagination (sort column, then id)
+  index("transfer_requests_created_at_idx").on(table.createdAt, table.id),
+  index("transfer_requests_reviewed_at_idx").on(table.reviewedAt, table.id),
+  index("transfer_requests_status_idx").on(table.status, table.createdAt),
+  index("transfer_requests_user_idx").on(table.userId),
+  index("transfer_requests_current_department_idx").on(table.currentDepartment, table.currentSubDepartment),
+  index("transfer_requests_requested_department_idx").on(table.requestedDepartment, table.requestedSubDepartment),
+  // One open transfer per user, even when two submissions race
+  uniqueIndex("transfer_requests_pending_user_idx").on(table.userId).where(sql`${table.status} = 'Pending'`),
+  // Named here because the generated names are longer than Postgres allows
+  foreignKey({ name: "transfer_requests_current_sub_department_fk", columns: [table.currentSubDepartment], foreignColumns: [subDepartments.id] })
+    .onDelete("restrict"),
+  foreignKey({ name: "transfer_requests_requested_sub_department_fk", columns: [table.requestedSubDepartment], foreignColumns: [subDepartments.id] })
+    .onDelete("restrict"),
+]);
 
 export const transferRequestsRelations = relations(transferRequests, ({ one }) => ({
   user: one(users, {
     fields: [transferRequests.userId],
     references: [users.id],
+    relationName: "requester",
   }),
   reviewer: one(users, {
     fields: [transferRequests.reviewedBy],
     references: [users.id],
   }),
+  releaseReviewer: one(users, {
+    fields: [transferRequests.releaseReviewedBy],
+    references: [users.id],
+  }),
+  acceptanceReviewer: one(users, {
+    fields: [transferRequests.acceptanceReviewedBy],
+    references: [users.id],
+  }),
 }));
 
 // LOA requests table
@@ -101,20 +221,65 @@ export const loaRequests = pgTable("loa_requests", {
   endDate: timestamp("end_date").notNull(),
   reason: text("reason").notNull(),
   status: text("status").notNull().default("Pending"),
+  // Null until approved, then "Upcoming", "Active" or "Completed"
+  phase: text("phase"),
+  startReminderSentAt: timestamp("start_reminder_sent_at"),
+  endReminderSentAt: timestamp("end_reminder_sent_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   reviewedAt: timestamp("reviewed_at"),
-  reviewedBy: varchar("reviewed_by").references(() => users.id),
-});
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewNote: text("review_note"),
+}, (table) => [
+  // Admin queue filters and keyset pagination (sort column, then id)
+  index("loa_requests_created_at_idx").on(table.createdAt, table.id),
+  index("loa_requests_reviewed_at_idx").on(table.reviewedAt, table.id),
+  index("loa_requests_status_idx").on(table.status, table.createdAt),
+  index("loa_requests_user_idx").on(table.userId),
+  index("loa_requests_reviewer_idx").on(table.reviewedBy),
+]);
 
-export const loaRequestsRelations = relations(loaRequests, ({ one }) => ({
+export const loaRequestsRelations = relations(loaRequests, ({ one, many }) => ({
   user: one(users, {
     fields: [loaRequests.userId],
     references: [users.id],
+    relationName: "requester",
   }),
   reviewer: one(users, {
     fields: [loaRequests.reviewedBy],
     references: [users.id],
   }),
+  adjustments: many(loaAdjustments),
+}));
+
+// LOA adjustments table: extensions go through review, early returns apply immediately
+export const loaAdjustments = pgTable("loa_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loaRequestId: varchar("loa_request_id").notNull().references(() => loaRequests.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // "Extension" or "EarlyReturn"
+  previousEndDate: timestamp("previous_end_date").notNull(),
+  requestedEndDate: timestamp("requested_end_date").notNull(),
+  reason: text("reason"),
+  status: text("status").notNull().default("Pending"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewNote: text("review_note"),
+});
+
+export const loaAdjustmentsRelations = relations(loaAdjustments, ({ one }) => ({
+  loaRequest: one(loaRequests, {
+    fields: [loaAdjustments.loaRequestId],
+    references: [loaRequests.id],
+  }),
+  user: one(users, {
+    fields: [loaAdjustments.userId],
+    references: [users.id],
+  }),
+  reviewer: one(users, {
+    fields: [loaAdjustments.reviewedBy],
+    references: [users.id],
+  }),
 }));
 
 // Notifications table
@@ -122,9 +287,9 @@ export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   message: text("message").notNull(),
-  type: text("type").notNull(), // "transfer_approved", "transfer_rejected", "loa_approved", "loa_rejected"
+  type: text("type").notNull(), // "transfer_released", "transfer_approved", "transfer_rejected", "loa_approved", "loa_rejected", "loa_extension_approved", "loa_extension_rejected", "loa_early_return", "loa_starting", "loa_ending", "request_comment", "rank_changed", "access_revoked", "user_reassigned", "account_suspended", "account_reinstated", "account_anonymised", "onboarding_claim", "onboarding_approved", "onboarding_rejected"
   requestId: varchar("request_id").notNull(),
-  requestType: text("request_type").notNull(), // "transfer" or "loa"
+  requestType: text("request_type").notNull(), // "transfer", "loa", "rank" (requestId is then the rank change), "user" (the user themself) or "onboarding" (the claim)
   read: boolean("read").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -136,13 +301,480 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
+// Comment threads on transfer and LOA requests, between the requester and reviewers
+export const requestComments = pgTable("request_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestType: text("request_type").notNull(), // "transfer" or "loa"
+  requestId: varchar("request_id").notNull(),
+  authorId: varchar("author_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("request_comments_request_idx").on(table.requestType, table.requestId, table.createdAt),
+]);
+
+export const requestCommentsRelations = relations(requestComments, ({ one }) => ({
+  author: one(users, {
+    fields: [requestComments.authorId],
+    references: [users.id],
+  }),
+}));
+
+// A new user's claimed department and sub-department, confirmed or rejected by that
+// department's leadership. A rejected user claims again.
+export const onboardingClaims = pgTable("onboarding_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  department: text("department").notNull().references(() => departments.id, { onDelete: "restrict" }),
+  subDepartment: text("sub_department").notNull().references(() => subDepartments.id, { onDelete: "restrict" }),
+  status: text("status").notNull().default("Pending"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewNote: text("review_note"),
+}, (table) => [
+  index("onboarding_claims_user_idx").on(table.userId, table.createdAt),
+  index("onboarding_claims_status_idx").on(table.status, table.department),
+  // One pending claim per user, even when two submissions race
+  uniqueIndex("onboarding_claims_pending_user_idx").on(table.userId).where(sql`${table.status} = 'Pending'`),
+]);
+
+export const onboardingClaimsRelations = relations(onboardingClaims, ({ one }) => ({
+  user: one(users, {
+    fields: [onboardingClaims.userId],
+    references: [users.id],
+    relationName: "claimant",
+  }),
+  reviewer: one(users, {
+    fields: [onboardingClaims.reviewedBy],
+    references: [users.id],
+  }),
+}));
+
+// Department assignment history table. The first assignment after onboarding has no
+// "from" placement.
+export const departmentAssignments = pgTable("department_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fromDepartment: text("from_department").references(() => departments.id, { onDelete: "restrict" }),
+  fromSubDepartment: text("from_sub_department"),
+  toDepartment: text("to_department").notNull().references(() => departments.id, { onDelete: "restrict" }),
+  toSubDepartment: text("to_sub_department").notNull(),
+  transferRequestId: varchar("transfer_request_id").references(() => transferRequests.id, { onDelete: "set null" }),
+  approvedBy: varchar("approved_by").references(() => users.id, { onDelete: "set null" }),
+  assignedAt: timestamp("assigned_at").notNull().defaultNow(),
+}, (table) => [
+  // Named here because the generated names are longer than Postgres allows
+  foreignKey({ name: "department_assignments_from_sub_department_fk", columns: [table.fromSubDepartment], foreignColumns: [subDepartments.id] })
+    .onDelete("restrict"),
+  foreignKey({ name: "department_assignments_to_sub_department_fk", columns: [table.toSubDepartment], foreignColumns: [subDepartments.id] })
+    .onDelete("restrict"),
+]);
+
+export const departmentAssignmentsRelations = relations(departmentAssignments, ({ one }) => ({
+  user: one(users, {
+    fields: [departmentAssignments.userId],
+    references: [users.id],
+    relationName: "assignee",
+  }),
+  transferRequest: one(transferRequests, {
+    fields: [departmentAssignments.transferRequestId],
+    references: [transferRequests.id],
+  }),
+  approver: one(users, {
+    fields: [departmentAssignments.approvedBy],
+    references: [users.id],
+  }),
+}));
+
+// Rank change history table (login refreshes and scheduled re-syncs)
+export const rankChanges = pgTable("rank_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fromRank: text("from_rank").notNull(),
+  fromRankId: integer("from_rank_id").notNull(),
+  toRank: text("to_rank").notNull(),
+  toRankId: integer("to_rank_id").notNull(),
+  source: text("source").notNull(), // "login" or "sync"
+  accessRevoked: boolean("access_revoked").notNull().default(false),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+export const rankChangesRelations = relations(rankChanges, ({ one }) => ({
+  user: one(users, {
+    fields: [rankChanges.userId],
+    references: [users.id],
+  }),
+}));
+
+// Audit events table (append-only: rows are never updated or deleted)
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Null for events raised by the portal itself, e.g. scheduled rank syncs
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  // Kept alongside actorId so the trail still reads correctly if the actor is removed
+  actorUsername: text("actor_username"),
+  action: text("action").notNull(), // e.g. "auth.login", "transfer.review", "settings.update"
+  entityType: text("entity_type").notNull(), // "user", "transfer", "loa", "settings", ...
+  entityId: text("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+  index("audit_events_actor_idx").on(table.actorId),
+  index("audit_events_entity_idx").on(table.entityType, table.entityId),
+]);
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+// Calendar feed tokens: each token grants read access to one department's approved LOAs as .ics
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  department: text("department").notNull().references(() => departments.id, { onDelete: "restrict" }),
+  token: text("token").notNull().unique(),
+  label: text("label"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Discord webhook targets: a department's channel, or the admin channel when department is null
+export const discordWebhooks = pgTable("discord_webhooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Null is the admin channel, so deleting a department must not null this out
+  department: text("department").references(() => departments.id, { onDelete: "restrict" }),
+  label: text("label"),
+  url: text("url").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const discordWebhooksRelations = relations(discordWebhooks, ({ many }) => ({
+  messages: many(discordOutbox),
+}));
+
+// Discord outbox: messages wait here until the delivery job has posted them, so a Discord
+// outage only delays them
+export const discordOutbox = pgTable("discord_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id").notNull().references(() => discordWebhooks.id, { onDelete: "cascade" }),
+  event: text("event").notNull(), // e.g. "transfer.created", "loa.approved", "webhook.test"
+  payload: jsonb("payload").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  // Set once retries are exhausted or Discord rejected the message outright
+  failedAt: timestamp("failed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("discord_outbox_next_attempt_idx").on(table.nextAttemptAt),
+]);
+
+export const discordOutboxRelations = relations(discordOutbox, ({ one }) => ({
+  webhook: one(discordWebhooks, {
+    fields: [discordOutbox.webhookId],
+    references: [discordWebhooks.id],
+  }),
+}));
+
+// Portal settings table (admin-editable configuration, one JSON document per key)
+export const portalSettings = pgTable("portal_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Roblox group settings, stored under the "roblox" key
+export const rankTitleSchema = z.object({
+  minRankId: z.number().int().min(0).max(255),
+  title: z.string().trim().min(1),
+});
+
+export const robloxSettingsSchema = z.object({
+  groupId: z.number().int().positive(),
+  minPortalRankId: z.number().int().min(1).max(255),
+  // Lowest ranks given department leadership and portal-wide executive permissions.
+  // Settings saved before these existed get the original thresholds.
+  leadershipMinRankId: z.number().int().min(1).max(255).default(205),
+  executiveMinRankId: z.number().int().min(1).max(255).default(252),
+  rankTitles: z.array(rankTitleSchema).min(1),
+}).refine(
+  (settings) => new Set(settings.rankTitles.map((r) => r.minRankId)).size === settings.rankTitles.length,
+  { message: "Each rank title needs a distinct minRankId", path: ["rankTitles"] },
+).refine(
+  (settings) => settings.executiveMinRankId >= settings.leadershipMinRankId,
+  { message: "The executive rank must be at or above the leadership rank", path: ["executiveMinRankId"] },
+);
+
+// LOA policy, stored under the "loa_policy" key and shared with the client so forms
+// can run the same checks before submitting
+export const loaPolicySchema = z.object({
+  // Days between submitting an LOA and its start date
+  minNoticeDays: z.number().int().min(0),
+  // Longest single LOA, by rank: the entry with the highest minRankId at or below the
+  // requester's rank applies
+  maxDurationDays: z.array(z.object({
+    minRankId: z.number().int().min(0).max(255),
+    days: z.number().int().positive(),
+  })).min(1),
+  // Total LOA days allowed in any window of periodDays
+  periodDays: z.number().int().positive(),
+  maxDaysPerPeriod: z.number().int().positive(),
+});
+
+export const DEFAULT_LOA_POLICY: LoaPolicy = {
+  minNoticeDays: 2,
+  maxDurationDays: [
+    { minRankId: 0, days: 14 },
+    { minRankId: 220, days: 21 },
+    { minRankId: 252, days: 30 },
+  ],
+  periodDays: 90,
+  maxDaysPerPeriod: 30,
+};
+
+export const LOA_POLICY_ERROR_CODES = [
+  "LOA_END_BEFORE_START",
+  "LOA_INSUFFICIENT_NOTICE",
+  "LOA_TOO_LONG",
+  "LOA_OVERLAP",
+  "LOA_PERIOD_LIMIT",
+] as const;
+
+export type LoaPolicyViolation = { code: typeof LOA_POLICY_ERROR_CODES[number]; message: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function loaDurationDays(startDate: Date, endDate: Date): number {
+  return Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS);
+}
+
+// The UTC day after the last day an LOA covers. endDate is exclusive, and an LOA covers
+// loaDurationDays whole days from the day it starts; the calendar feed and the coverage
+// report both count days this way.
+export function loaEndDay(startDate: Date, endDate: Date): Date {
+  const startDay = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate());
+  return new Date(startDay + loaDurationDays(startDate, endDate) * DAY_MS);
+}
+
+export function maxLoaDaysForRank(policy: LoaPolicy, rankId: number): number {
+  const match = policy.maxDurationDays
+    .filter((limit) => rankId >= limit.minRankId)
+    .sort((a, b) => b.minRankId - a.minRankId)[0];
+  return match ? match.days : Math.min(...policy.maxDurationDays.map((limit) => limit.days));
+}
+
+function overlapDays(startA: Date, endA: Date, startB: Date, endB: Date): number {
+  const start = Math.max(startA.getTime(), startB.getTime());
+  const end = Math.min(endA.getTime(), endB.getTime());
+  return end > start ? Math.ceil((end - start) / DAY_MS) : 0;
+}
+
+// Transfer policy, stored under the "transfer_policy" key
+export const transferPolicySchema = z.object({
+  // Days after an approved transfer before the user can request another
+  cooldownDays: z.number().int().min(0),
+});
+
+export const DEFAULT_TRANSFER_POLICY: TransferPolicy = {
+  cooldownDays: 30,
+};
+
+export const TRANSFER_POLICY_ERROR_CODES = [
+  "TRANSFER_INVALID_PLACEMENT",
+  "TRANSFER_SAME_PLACEMENT",
+  "TRANSFER_ALREADY_OPEN",
+  "TRANSFER_COOLDOWN",
+] as const;
+
+export type TransferPolicyViolation = { code: typeof TRANSFER_POLICY_ERROR_CODES[number]; message: string };
+
+// Also returned when the database turns away a second pending transfer
+export const TRANSFER_ALREADY_OPEN_VIOLATION: TransferPolicyViolation = {
+  code: "TRANSFER_ALREADY_OPEN",
+  message: "You already have a pending transfer request; edit or withdraw it instead",
+};
+
+// Checks a transfer against the requester's placement and history. Whether the requested
+// placement exists is checked on the server against the org structure
+// (TRANSFER_INVALID_PLACEMENT). Returns every violation found.
+export function checkTransferPolicy(
+  policy: TransferPolicy,
+  transfer: { requestedDepartment: string; requestedSubDepartment: string },
+  context: {
+    currentDepartment: string | null;
+    currentSubDepartment: string | null;
+    // Another pending transfer by the same user (not the one being edited)
+    hasOpenTransfer: boolean;
+    // When the user's last approved transfer was decided
+    lastApprovedAt: Date | null;
+    now?: Date;
+  },
+): TransferPolicyViolation[] {
+  const violations: TransferPolicyViolation[] = [];
+  const now = context.now ?? new Date();
+
+  if (transfer.requestedDepartment === context.currentDepartment
+    && transfer.requestedSubDepartment === context.currentSubDepartment) {
+    violations.push({ code: "TRANSFER_SAME_PLACEMENT", message: "You are already in that department and sub-department" });
+  }
+
+  if (context.hasOpenTransfer) {
+    violations.push(TRANSFER_ALREADY_OPEN_VIOLATION);
+  }
+
+  if (context.lastApprovedAt) {
+    const availableAt = context.lastApprovedAt.getTime() + policy.cooldownDays * DAY_MS;
+    if (availableAt > now.getTime()) {
+      violations.push({
+        code: "TRANSFER_COOLDOWN",
+        message: `You can request another transfer ${policy.cooldownDays} days after your last one was approved (from ${new Date(availableAt).toISOString().slice(0, 10)})`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Checks an LOA against the policy. `existing` should be the requester's other pending
+// and approved LOAs (excluding the one being edited). Returns every violation found.
+export function checkLoaPolicy(
+  policy: LoaPolicy,
+  loa: { startDate: Date; endDate: Date },
+  context: { rankId: number; existing: { startDate: Date; endDate: Date }[]; now?: Date },
+): LoaPolicyViolation[] {
+  const violations: LoaPolicyViolation[] = [];
+  const now = context.now ?? new Date();
+  const { startDate, endDate } = loa;
+
+  if (endDate.getTime() <= startDate.getTime()) {
+    violations.push({ code: "LOA_END_BEFORE_START", message: "End date must be after the start date" });
+    // The remaining checks depend on a valid range
+    return violations;
+  }
+
+  if (startDate.getTime() < now.getTime() + policy.minNoticeDays * DAY_MS) {
+    violations.push({
+      code: "LOA_INSUFFICIENT_NOTICE",
+      message: policy.minNoticeDays > 0
+        ? `LOAs must be requested at least ${policy.minNoticeDays} days in advance`
+        : "LOAs cannot start in the past",
+    });
+  }
+
+  const maxDays = maxLoaDaysForRank(policy, context.rankId);
+  if (loaDurationDays(startDate, endDate) > maxDays) {
+    violations.push({ code: "LOA_TOO_LONG", message: `LOAs at your rank can last at most ${maxDays} days` });
+  }
+
+  if (context.existing.some((other) => overlapDays(startDate, endDate, other.startDate, other.endDate) > 0)) {
+    violations.push({ code: "LOA_OVERLAP", message: "This LOA overlaps one of your pending or approved LOAs" });
+  }
+
+  // Rolling cap: the fullest window starts when some LOA starts or ends when some LOA
+  // ends, so check each of those windows that takes in part of this LOA
+  const periodMs = policy.periodDays * DAY_MS;
+  const windows = [loa, ...context.existing]
+    .flatMap((other) => [
+      [other.startDate, new Date(other.startDate.getTime() + periodMs)],
+      [new Date(other.endDate.getTime() - periodMs), other.endDate],
+    ])
+    .filter(([windowStart, windowEnd]) => windowStart < endDate && windowEnd > startDate);
+  const exceedsCap = windows.some(([windowStart, windowEnd]) => {
+    const total = [loa, ...context.existing].reduce(
+      (sum, other) => sum + overlapDays(other.startDate, other.endDate, windowStart, windowEnd),
+      0,
+    );
+    return total > policy.maxDaysPerPeriod;
+  });
+  if (exceedsCap) {
+    violations.push({
+      code: "LOA_PERIOD_LIMIT",
+      message: `LOAs can total at most ${policy.maxDaysPerPeriod} days in any ${policy.periodDays}-day period`,
+    });
+  }
+
+  return violations;
+}
+
+// Coverage thresholds, stored under the "coverage" key. A sub-department with fewer
+// staff on duty than its minimum on any day gets a warning in the coverage report.
+export const coverageSettingsSchema = z.object({
+  minOnDuty: z.number().int().min(0),
+  subDepartmentMinimums: z.array(z.object({
+    department: z.string(),
+    subDepartment: z.string(),
+    minOnDuty: z.number().int().min(0),
+  })).default([]),
+});
+
+export const coverageQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  department: z.string().optional(),
+}).refine((query) => query.to.getTime() >= query.from.getTime(), {
+  message: "to must not be before from",
+  path: ["to"],
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   verifiedAt: true,
   lastLogin: true,
+  onLeave: true,
+  onLeaveUntil: true,
+  suspendedAt: true,
+  suspendedUntil: true,
+  suspensionReason: true,
+  suspendedBy: true,
+  anonymisedAt: true,
+});
+
+// Moves a user directly, without a transfer request. New users claim their placement
+// with the same shape. Both are ids, checked against the org structure by the routes.
+export const userAssignmentSchema = z.object({
+  department: z.string().min(1),
+  subDepartment: z.string().min(1),
 });
 
+const orgNameField = z.string().trim().min(1, "A name is required").max(100);
+const headcountCapField = z.number().int().min(1).nullable();
+
+export const insertDepartmentSchema = z.object({
+  name: orgNameField,
+  headcountCap: headcountCapField.optional(),
+});
+
+export const updateDepartmentSchema = z.object({
+  name: orgNameField.optional(),
+  headcountCap: headcountCapField.optional(),
+  archived: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const insertSubDepartmentSchema = insertDepartmentSchema;
+export const updateSubDepartmentSchema = updateDepartmentSchema;
+
+export const userSuspensionSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+  // Omit to suspend until reinstated
+  until: z.coerce.date().optional(),
+}).refine(
+  (suspension) => !suspension.until || suspension.until > new Date(),
+  { message: "Suspension must end in the future", path: ["until"] },
+);
+
 export const insertVerificationCodeSchema = createInsertSchema(verificationCodes).omit({
   id: true,
   createdAt: true,
@@ -151,38 +783,324 @@ export const insertVerificationCodeSchema = createInsertSchema(verificationCodes
 
 export const insertTransferRequestSchema = createInsertSchema(transferRequests).omit({
   id: true,
+  status: true,
+  releaseStatus: true,
+  releaseReviewedAt: true,
+  releaseReviewedBy: true,
+  acceptanceStatus: true,
+  acceptanceReviewedAt: true,
+  acceptanceReviewedBy: true,
+  releaseNote: true,
+  acceptanceNote: true,
   createdAt: true,
   reviewedAt: true,
   reviewedBy: true,
+  reviewNote: true,
 }).extend({
   reason: z.string().optional(),
 });
 
 export const insertLoaRequestSchema = createInsertSchema(loaRequests).omit({
   id: true,
+  status: true,
+  phase: true,
+  startReminderSentAt: true,
+  endReminderSentAt: true,
   createdAt: true,
   reviewedAt: true,
   reviewedBy: true,
+  reviewNote: true,
+});
+
+export const insertLoaAdjustmentSchema = createInsertSchema(loaAdjustments).omit({
+  id: true,
+  createdAt: true,
+  reviewedAt: true,
+  reviewedBy: true,
+  reviewNote: true,
+});
+
+// A reviewer's decision. Rejections must say why; approvals may carry a note.
+const reviewDecisionFields = {
+  status: z.enum(["Approved", "Rejected"]),
+  note: z.string().trim().max(1000).optional(),
+};
+
+function requireRejectionReason(decision: { status: string; note?: string }, ctx: z.RefinementCtx) {
+  if (decision.status === "Rejected" && !decision.note) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["note"], message: "A reason is required when rejecting" });
+  }
+}
+
+export const reviewDecisionSchema = z.object(reviewDecisionFields).superRefine(requireRejectionReason);
+
+// The same decision (and note) applied to each request in the list
+export const bulkReviewSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+  ...reviewDecisionFields,
+}).superRefine(requireRejectionReason);
+
+export const insertRequestCommentSchema = createInsertSchema(requestComments, {
+  body: z.string().trim().min(1, "Comment cannot be empty").max(2000),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const loaExtensionRequestSchema = z.object({
+  endDate: z.coerce.date(),
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const loaEarlyReturnSchema = z.object({
+  reason: z.string().trim().optional(),
+});
+
+// What the requester sends; the current placement comes from their user row
+export const submitTransferRequestSchema = insertTransferRequestSchema.pick({
+  requestedDepartment: true,
+  requestedSubDepartment: true,
+  reason: true,
 });
 
+// Fields a requester may change while their request is still pending
+export const updateTransferRequestSchema = insertTransferRequestSchema.pick({
+  requestedDepartment: true,
+  requestedSubDepartment: true,
+  reason: true,
+}).partial();
+
+export const updateLoaRequestSchema = insertLoaRequestSchema.pick({
+  startDate: true,
+  endDate: true,
+  reason: true,
+}).partial();
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
   read: true,
 });
 
+export const insertDepartmentAssignmentSchema = createInsertSchema(departmentAssignments).omit({
+  id: true,
+  assignedAt: true,
+});
+
+export const insertRankChangeSchema = createInsertSchema(rankChanges).omit({
+  id: true,
+  changedAt: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDiscordWebhookSchema = createInsertSchema(discordWebhooks, {
+  department: z.string().min(1).nullable().optional(),
+  label: z.string().trim().max(100).nullable().optional(),
+  url: z.string().url(),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export const updateDiscordWebhookSchema = insertDiscordWebhookSchema.partial();
+
+export const insertDiscordOutboxMessageSchema = createInsertSchema(discordOutbox).pick({
+  webhookId: true,
+  event: true,
+  payload: true,
+});
+
+// Filters shared by the admin transfer and LOA request lists and their exports. Sorting
+// by reviewedAt only lists requests that have been reviewed.
+export const requestFiltersSchema = z.object({
+  status: z.enum(REQUEST_STATUS).optional(),
+  department: z.string().optional(),
+  subDepartment: z.string().optional(),
+  requesterId: z.string().optional(),
+  reviewerId: z.string().optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  reviewedFrom: z.coerce.date().optional(),
+  reviewedTo: z.coerce.date().optional(),
+  sort: z.enum(["createdAt", "reviewedAt"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+// The admin lists come back a page at a time: pass the previous page's nextCursor to continue
+export const requestQuerySchema = requestFiltersSchema.extend({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Exports pick their columns with a comma-separated list; all columns when omitted
+const exportFormatFields = {
+  format: z.enum(["csv", "json"]).default("csv"),
+  columns: z.string().optional(),
+};
+
+export const requestExportQuerySchema = requestFiltersSchema.extend(exportFormatFields);
+
+export const rosterFiltersSchema = z.object({
+  department: z.string().optional(),
+  subDepartment: z.string().optional(),
+  // Roblox rank IDs, inclusive
+  minRankId: z.coerce.number().int().min(0).max(255).optional(),
+  maxRankId: z.coerce.number().int().min(0).max(255).optional(),
+  onLeave: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  // Case-insensitive match anywhere in the Roblox username
+  search: z.string().trim().min(1).max(50).optional(),
+});
+
+export const rosterExportQuerySchema = rosterFiltersSchema.extend(exportFormatFields);
+
+// The staff directory is alphabetical by username, a page at a time
+export const staffDirectoryQuerySchema = rosterFiltersSchema.extend({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const orgChartQuerySchema = z.object({
+  department: z.string().optional(),
+});
+
+// Filters for GET /api/admin/audit
+export const auditQuerySchema = z.object({
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserAssignment = z.infer<typeof userAssignmentSchema>;
+
+export type Department = typeof departments.$inferSelect;
+export type SubDepartment = typeof subDepartments.$inferSelect;
+export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
+export type UpdateDepartment = z.infer<typeof updateDepartmentSchema>;
+export type InsertSubDepartment = z.infer<typeof insertSubDepartmentSchema>;
+export type UpdateSubDepartment = z.infer<typeof updateSubDepartmentSchema>;
+
+// GET /api/org: every department and sub-department in display order, archived ones
+// included, with current headcounts
+export type OrgSubDepartment = SubDepartment & { memberCount: number };
+export type OrgDepartment = Department & { memberCount: number; subDepartments: OrgSubDepartment[] };
+export type UserSuspension = z.infer<typeof userSuspensionSchema>;
+export type OnboardingStatus = typeof ONBOARDING_STATUSES[number];
+
+export type OnboardingClaim = typeof onboardingClaims.$inferSelect;
+export type OnboardingClaimWithUsers = OnboardingClaim & { user: RequestUser; reviewer: RequestUser | null };
+export type OnboardingClaimWithProfiles = OnboardingClaim & { user: UserSummary; reviewer: UserSummary | null };
 
 export type VerificationCode = typeof verificationCodes.$inferSelect;
 export type InsertVerificationCode = z.infer<typeof insertVerificationCodeSchema>;
 
+export type Permission = typeof PERMISSIONS[number];
+export type PermissionScope = typeof PERMISSION_SCOPES[number];
+export type EffectivePermission = { permission: Permission; scope: PermissionScope };
+
+// Shape of GET /api/auth/me
+export type CurrentUser = User & { permissions: EffectivePermission[] };
+
+export type RequestStatus = typeof REQUEST_STATUS[number];
+
+// The slice of a user embedded in request payloads as requester or reviewer
+export type RequestUser = Pick<User, "id" | "robloxUsername" | "robloxUserId" | "rank" | "rankId" | "department" | "subDepartment">;
+export type UserSummary = RequestUser & { avatarUrl: string | null };
+
+// A staff directory entry
+export type StaffMemberRow = RequestUser & Pick<User, "onLeave" | "onLeaveUntil" | "lastLogin">;
+export type StaffMember = StaffMemberRow & { avatarUrl: string | null };
+
+// GET /api/staff/org-chart: departments and sub-departments in org structure order,
+// members by rank (highest first)
+export type OrgChartSubDepartment = { id: string; name: string; members: StaffMember[] };
+export type OrgChartDepartment = { id: string; name: string; memberCount: number; subDepartments: OrgChartSubDepartment[] };
+
 export type TransferRequest = typeof transferRequests.$inferSelect;
+export type TransferReviewStage = typeof TRANSFER_REVIEW_STAGES[number];
 export type InsertTransferRequest = z.infer<typeof insertTransferRequestSchema>;
+export type SubmitTransferRequest = z.infer<typeof submitTransferRequestSchema>;
+export type UpdateTransferRequest = z.infer<typeof updateTransferRequestSchema>;
+export type TransferRequestWithUsers = TransferRequest & {
+  user: RequestUser;
+  reviewer: RequestUser | null;
+  releaseReviewer: RequestUser | null;
+  acceptanceReviewer: RequestUser | null;
+};
+export type TransferRequestWithProfiles = TransferRequest & {
+  user: UserSummary;
+  reviewer: UserSummary | null;
+  releaseReviewer: UserSummary | null;
+  acceptanceReviewer: UserSummary | null;
+};
 
 export type LoaRequest = typeof loaRequests.$inferSelect;
 export type InsertLoaRequest = z.infer<typeof insertLoaRequestSchema>;
+export type UpdateLoaRequest = z.infer<typeof updateLoaRequestSchema>;
+export type LoaRequestWithUsers = LoaRequest & { user: RequestUser; reviewer: RequestUser | null };
+export type LoaRequestWithProfiles = LoaRequest & { user: UserSummary; reviewer: UserSummary | null };
+
+export type LoaPhase = typeof LOA_PHASES[number];
+
+export type LoaAdjustment = typeof loaAdjustments.$inferSelect;
+export type InsertLoaAdjustment = z.infer<typeof insertLoaAdjustmentSchema>;
+export type LoaAdjustmentType = typeof LOA_ADJUSTMENT_TYPES[number];
+
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>;
+export type BulkReview = z.infer<typeof bulkReviewSchema>;
+export type BulkReviewResult = {
+  id: string;
+  result: "updated" | "not_found" | "already_reviewed" | "forbidden" | "unavailable" | "failed";
+  message?: string;
+};
+
+export type RequestComment = typeof requestComments.$inferSelect;
+export type InsertRequestComment = z.infer<typeof insertRequestCommentSchema>;
+export type RequestCommentWithAuthor = RequestComment & { author: RequestUser };
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type RankChange = typeof rankChanges.$inferSelect;
+export type InsertRankChange = z.infer<typeof insertRankChangeSchema>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export type RequestFilters = z.infer<typeof requestFiltersSchema>;
+export type RequestQuery = z.infer<typeof requestQuerySchema>;
+export type RosterFilters = z.infer<typeof rosterFiltersSchema>;
+export type StaffDirectoryQuery = z.infer<typeof staffDirectoryQuerySchema>;
+export type RequestPage<T> = { items: T[]; total: number; nextCursor: string | null };
+
+export type LoaPolicy = z.infer<typeof loaPolicySchema>;
+export type TransferPolicy = z.infer<typeof transferPolicySchema>;
+
+export type DiscordWebhook = typeof discordWebhooks.$inferSelect;
+export type InsertDiscordWebhook = z.infer<typeof insertDiscordWebhookSchema>;
+export type UpdateDiscordWebhook = z.infer<typeof updateDiscordWebhookSchema>;
+export type DiscordOutboxMessage = typeof discordOutbox.$inferSelect;
+export type InsertDiscordOutboxMessage = z.infer<typeof insertDiscordOutboxMessageSchema>;
+
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+export type CoverageSettings = z.infer<typeof coverageSettingsSchema>;
+export type CoverageQuery = z.infer<typeof coverageQuerySchema>;
+
+export type PortalSetting = typeof portalSettings.$inferSelect;
+export type RankTitle = z.infer<typeof rankTitleSchema>;
+export type RobloxSettings = z.infer<typeof robloxSettingsSchema>;
+
+export type DepartmentAssignment = typeof departmentAssignments.$inferSelect;
+export type InsertDepartmentAssignment = z.infer<typeof insertDepartmentAssignmentSchema>;